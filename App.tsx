@@ -1,14 +1,23 @@
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import Board from './components/Board';
-import AnalysisPanel from './components/AnalysisPanel';
+import AnalysisPanel, { BranchOption } from './components/AnalysisPanel';
 import SettingsModal from './components/SettingsModal';
-import { createInitialState, playMove, calculateInfluence, estimateScore, getRandomValidMove } from './services/goGame';
+import NewGameModal from './components/NewGameModal';
+import GameLibraryModal from './components/GameLibraryModal';
+import { BOARD_SIZE, KOMI, createInitialState, playMove, passMove, resignGame, formatResult, scoreGame, getGroup, calculateInfluence } from './services/goGame';
 import { getAIMove, analyzeMove } from './services/geminiService';
-import { GameState, PlayerColor, MoveAnalysis, Coordinate, AnalysisHistoryItem, AIConfig } from './types';
-import { RotateCcw, Play, Undo2, TrendingUp, Activity, Settings, Cpu, Coins } from 'lucide-react';
-
-const BOARD_SIZE = 19; 
+import { getLocalMove } from './services/localEngine';
+import { importSGF } from './services/sgfService';
+import { downloadSGF } from './services/exportService';
+import { subscribeToQueue, isRateLimitError } from './services/requestScheduler';
+import { isInvalidResponseError } from './services/responseValidator';
+import { getVariationStones, getVariationPreview } from './services/variations';
+import { buildGameGraph } from './services/gameGraph';
+import { createGameId, saveGame, loadGame, getCurrentGameId, setCurrentGameId, stripApiKeys, restoreApiKeys } from './services/storageService';
+import { createGameTree, createNodeId, addNode, findChild, updateNodeState, removeSubtree, getNodePath, getLineEnd } from './services/gameTree';
+import { GameState, GameTree, PlayerColor, MoveAnalysis, Coordinate, AnalysisHistoryItem, AIConfig, ScoringRule, NewGameOptions, SavedGame, ReviewProgress } from './types';
+import { RotateCcw, Play, Pause, Undo2, TrendingUp, Activity, Settings, Cpu, Coins, Hand, Flag, Trophy, FileUp, Library, WifiOff, Hourglass } from 'lucide-react';
 
 const LOADING_ANALYSIS: MoveAnalysis = {
   evaluation: '普通',
@@ -21,54 +30,206 @@ const LOADING_ANALYSIS: MoveAnalysis = {
   variations: []
 };
 
+// Imported moves start without an AI analysis
+const UNANALYZED: MoveAnalysis = {
+  ...LOADING_ANALYSIS,
+  title: '未分析',
+  detailedAnalysis: '',
+  strategicContext: ''
+};
+
+// Pause between moves when watching AI vs AI
+const AI_MOVE_DELAYS = [
+  { ms: 0, label: '极速' },
+  { ms: 500, label: '快' },
+  { ms: 1500, label: '中' },
+  { ms: 3000, label: '慢' },
+];
+
+// Full review: analyzed moves in flight at once (the request scheduler throttles further)
+const REVIEW_CONCURRENCY = 2;
+
+interface ReviewTask {
+  nodeId: string;
+  state: GameState;
+  coordinate: Coordinate;
+}
+
+// Moves the full review (re)analyzes: never analyzed, or the last attempt failed
+const needsAnalysis = (item: AnalysisHistoryItem) =>
+  !item.isLoading && (item.isUnanalyzed || item.isQueued || item.isInvalid || item.isFailed);
+
 const App: React.FC = () => {
-  const [gameState, setGameState] = useState<GameState>(createInitialState(BOARD_SIZE));
-  const [history, setHistory] = useState<GameState[]>([]); // Store history for Undo
-  const [prevBoard, setPrevBoard] = useState<PlayerColor[][] | undefined>(undefined);
+  const [gameOptions, setGameOptions] = useState<NewGameOptions>({
+    boardSize: BOARD_SIZE, koRule: 'simple', handicap: 0, komi: KOMI, mode: 'vsAI', humanColor: PlayerColor.Black
+  });
+  // Saved game identity (IndexedDB)
+  const [gameId, setGameId] = useState<string>(() => createGameId());
+  const gameCreatedAt = useRef<number>(Date.now());
+  const [isRestored, setIsRestored] = useState(false);
+  const skipAutosave = useRef(false); // Just opened: nothing to write back
+
+  // Every position of the game, branches included; the game continues from currentNodeId
+  const [tree, setTree] = useState<GameTree>(() => createGameTree(createInitialState(BOARD_SIZE)));
+  const [currentNodeId, setCurrentNodeId] = useState<string>(() => tree.rootId);
+  const currentNode = tree.nodes[currentNodeId] || tree.nodes[tree.rootId];
+  const gameState = currentNode.state;
+
+  // Root -> current node: the line shown in the analysis panel
+  const currentPath = React.useMemo(() => getNodePath(tree, currentNode.id), [tree, currentNode]);
   
-  // New: Store history of analyses
+  // New: Store history of analyses (keyed by tree node)
   const [analysisHistory, setAnalysisHistory] = useState<AnalysisHistoryItem[]>([]);
   
-  // New: State for Time Travel (Viewing a past move)
-  const [viewingMoveNum, setViewingMoveNum] = useState<number | null>(null);
+  // New: State for Time Travel (Viewing a past position on the current line)
+  const [viewingNodeId, setViewingNodeId] = useState<string | null>(null);
 
   // Derived state for global analyzing indicator
   const isAnalyzing = analysisHistory.some(item => item.isLoading);
 
   const [isAiThinking, setIsAiThinking] = useState(false);
+  // AI vs AI spectating controls
+  const [isPaused, setIsPaused] = useState(false);
+  const [aiMoveDelay, setAiMoveDelay] = useState(1500);
   // ... (rest of state)
 
-  // Compute which GameState to display on the board
-  const displayGameState = React.useMemo(() => {
-    // If not viewing history, or viewing the latest move, show current state
-    const currentMoveCount = gameState.moveHistory.length;
-    if (viewingMoveNum === null || viewingMoveNum === currentMoveCount) {
-      return gameState;
-    }
-    
-    // Retrieve historical state
-    // history[0] = Initial State (Move 0)
-    // history[1] = State after Move 1
-    // history[k] = State after Move k
-    if (viewingMoveNum >= 0 && viewingMoveNum < history.length) {
-      return history[viewingMoveNum];
-    }
-    
-    return gameState;
-  }, [gameState, history, viewingMoveNum]);
+  // Compute which node to display on the board: the viewed one, else the current one
+  const displayNode = (viewingNodeId && tree.nodes[viewingNodeId]) || currentNode;
+  const displayGameState = displayNode.state;
+  const prevBoard = displayNode.parentId ? tree.nodes[displayNode.parentId].state.board : undefined;
+
+  // Engine ownership of the displayed position (GTP analysis), drawn like the counting overlay
+  const engineOwnership = React.useMemo(() => {
+    const ownership = analysisHistory.find(item => item.nodeId === displayNode.id)?.analysis.engine?.ownership;
+    if (!ownership) return null;
+    return ownership.map(row => row.map(v => v > 0.5 ? PlayerColor.Black : v < -0.5 ? PlayerColor.White : PlayerColor.Empty));
+  }, [analysisHistory, displayNode.id]);
+
+  // Variation preview: the suggestion played out from the position before the analyzed move, its stones numbered.
+  // A clicked variation stays on the board and can be stepped through; hovering shows it in full.
+  const [variationPreview, setVariationPreview] = useState<{ nodeId: string; index: number; step: number | null } | null>(null);
+  const [hoveredVariation, setHoveredVariation] = useState<{ nodeId: string; index: number } | null>(null);
+  useEffect(() => {
+    setVariationPreview(null);
+    setHoveredVariation(null);
+  }, [displayNode.id]);
+
+  const preview = React.useMemo(() => {
+    const shown = variationPreview ?? (hoveredVariation && { ...hoveredVariation, step: null });
+    const node = shown && tree.nodes[shown.nodeId];
+    const variation = node && analysisHistory.find(item => item.nodeId === node.id)?.analysis.variations?.[shown.index];
+    if (!node?.parentId || !variation) return null;
+    const before = tree.nodes[node.parentId].state;
+    const stones = getVariationStones(before, variation);
+    const step = shown.step ?? stones.length; // Stones shown, null = all
+    const shownPosition = getVariationPreview(before, variation, step);
+    return {
+      parentId: node.parentId,
+      state: before,
+      stones: stones.slice(0, step), // Moves to play for 试下
+      board: shownPosition.state, // Captures taken off
+      ghostStones: shownPosition.stones,
+      step,
+      total: stones.length,
+      isPinned: shown === variationPreview
+    };
+  }, [variationPreview, hoveredVariation, tree, analysisHistory]);
+
+  const handlePreviewVariation = useCallback((nodeId: string, index: number | null) => {
+    setVariationPreview(index === null ? null : { nodeId, index, step: null });
+  }, []);
+
+  const handleHoverVariation = useCallback((nodeId: string, index: number | null) => {
+    setHoveredVariation(index === null ? null : { nodeId, index });
+  }, []);
+
+  const handleStepVariation = (delta: number) => {
+    if (!preview?.isPinned) return;
+    const step = Math.max(1, Math.min(preview.total, preview.step + delta));
+    setVariationPreview(prev => prev && { ...prev, step });
+  };
+
+  // Analysis of the moves on the current line, and the alternatives at each of them
+  const lineItems = React.useMemo(() => {
+    const lineIds = new Set(currentPath.map(node => node.id));
+    return analysisHistory.filter(item => lineIds.has(item.nodeId));
+  }, [analysisHistory, currentPath]);
+
+  const branchOptions = React.useMemo(() => {
+    const options: Record<number, BranchOption[]> = {};
+    currentPath.forEach((node, moveNumber) => {
+      const parent = node.parentId ? tree.nodes[node.parentId] : null;
+      if (!parent || parent.children.length < 2) return;
+      options[moveNumber] = parent.children.map(id => ({
+        nodeId: id,
+        player: tree.nodes[id].move?.player ?? PlayerColor.Empty,
+        coordinate: tree.nodes[id].move?.coordinate ?? null,
+        isActive: id === node.id
+      }));
+    });
+    return options;
+  }, [tree, currentPath]);
 
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
-  const [scoreEst, setScoreEst] = useState<{leadColor: PlayerColor, diff: number} | null>(null);
+
+  // Counting: after two passes the user marks dead stones, then confirms the result
+  const [deadStones, setDeadStones] = useState<Coordinate[]>([]);
+  const [scoringRule, setScoringRule] = useState<ScoringRule>('chinese');
+  const isScoring = gameState.isGameOver && !gameState.result;
+  const isCountedView = gameState.isGameOver && gameState.result?.reason !== 'resign' && displayGameState === gameState;
+
+  const scoreResult = React.useMemo(() => {
+    if (!isCountedView) return null;
+    return scoreGame(gameState, deadStones, scoringRule);
+  }, [isCountedView, gameState, deadStones, scoringRule]);
   
   // Token Stats
   const [totalTokens, setTotalTokens] = useState(0);
 
+  // AI requests waiting for a free slot in the request scheduler
+  const [pendingRequests, setPendingRequests] = useState(0);
+  useEffect(() => subscribeToQueue(setPendingRequests), []);
+
+  // Connectivity: analyses requested while offline wait in the history as queued
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const queuedCount = analysisHistory.filter(item => item.isQueued).length;
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
   // Settings State
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isNewGameOpen, setIsNewGameOpen] = useState(false);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Pending analysis requests by node id, to cancel them
+  const analysisControllers = useRef(new Map<string, AbortController>());
+  // The AI move being generated, and the session it belongs to: a new, opened or imported game
+  // starts a new session, so answers still on their way for the old one are dropped
+  const aiMoveController = useRef<AbortController | null>(null);
+  const sessionId = useRef(0);
+  // Full review: moves still to send and requests in flight (refs, the loop outlives renders)
+  const [review, setReview] = useState<ReviewProgress | null>(null);
+  const reviewQueue = useRef<ReviewTask[]>([]);
+  const reviewRunning = useRef(0);
+  const reviewPaused = useRef(false);
+  // Latest analyses for the review loop: moves analyzed by hand meanwhile are not sent again
+  const latestAnalyses = useRef<AnalysisHistoryItem[]>([]);
+  latestAnalyses.current = analysisHistory;
   const [aiConfig, setAiConfig] = useState<AIConfig>({
     provider: 'gemini',
     apiKey: ''
   });
+  // Settings as of the latest render, for the review loop (the model may be changed mid-review)
+  const latestAiConfig = useRef(aiConfig);
+  latestAiConfig.current = aiConfig;
 
   // Load saved config on mount
   useEffect(() => {
@@ -89,243 +250,625 @@ const App: React.FC = () => {
     }
   }, []);
 
+  // Resume the last game after a reload
+  useEffect(() => {
+    const savedId = getCurrentGameId();
+    if (!savedId) {
+      setIsRestored(true);
+      return;
+    }
+    loadGame(savedId)
+      .then(game => { if (game) openSavedGame(game); })
+      .catch(err => console.error("Failed to restore game", err))
+      .finally(() => setIsRestored(true));
+  }, []);
+
+  // Autosave: the current game is written shortly after every change
+  useEffect(() => {
+    if (!isRestored) return;
+    if (tree.nodes[tree.rootId].children.length === 0) return; // Nothing played yet
+    if (skipAutosave.current) {
+      skipAutosave.current = false;
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      saveGame({
+        id: gameId,
+        createdAt: gameCreatedAt.current,
+        updatedAt: Date.now(),
+        options: stripApiKeys(gameOptions),
+        tree,
+        currentNodeId: currentNode.id,
+        analysisHistory,
+        totalTokens,
+        moveCount: gameState.moveHistory.length,
+        result: gameState.result,
+        provider: aiConfig.provider
+      })
+        .then(() => setCurrentGameId(gameId))
+        .catch(err => console.error("Failed to save game", err));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [isRestored, gameId, gameOptions, tree, currentNode, gameState, analysisHistory, totalTokens, aiConfig.provider]);
+
   const handleSaveSettings = (newConfig: AIConfig) => {
     setAiConfig(newConfig);
     localStorage.setItem('zenGo_aiConfig', JSON.stringify(newConfig));
   };
 
-  // Update score estimate whenever game state changes (use displayGameState to show estimate for past moves too!)
+  // Score lead of every position on the line (engine or estimate); the status bar shows the displayed one
+  const graphPoints = React.useMemo(() => buildGameGraph(currentPath, analysisHistory), [currentPath, analysisHistory]);
+  const displayPoint = graphPoints[displayGameState.moveHistory.length];
+  const scoreEst = displayPoint && {
+    leadColor: displayPoint.scoreLead > 0 ? PlayerColor.Black : PlayerColor.White,
+    diff: Math.abs(displayPoint.scoreLead)
+  };
+
+  // Whose turn is it: the human's or an AI's?
+  const isAITurn = (state: GameState) => {
+    if (state.isGameOver || gameOptions.mode === 'hotseat') return false;
+    return gameOptions.mode === 'aiVsAi' || state.currentPlayer !== gameOptions.humanColor;
+  };
+
+  // AI vs AI uses one config per color; otherwise the configured provider plays
+  const getAIConfigFor = (color: PlayerColor): AIConfig => {
+    const configs = gameOptions.aiVsAiConfigs;
+    if (gameOptions.mode === 'aiVsAi' && configs) {
+      return color === PlayerColor.Black ? configs.black : configs.white;
+    }
+    return aiConfig;
+  };
+
+  // Who sits at each color, for the status bar
+  const getPlayerLabel = (color: PlayerColor) => {
+    if (gameOptions.mode === 'hotseat') {
+      const names = gameOptions.playerNames;
+      return (color === PlayerColor.Black ? names?.black : names?.white) || '棋手';
+    }
+    if (gameOptions.mode === 'vsAI' && color === gameOptions.humanColor) return '你';
+    return getAIConfigFor(color).provider.toUpperCase();
+  };
+
+  // Adds a position to the tree and continues the game from it
+  const commitState = (parentId: string, newState: GameState): string => {
+    const nodeId = createNodeId();
+    setTree(prev => addNode(prev, parentId, nodeId, newState));
+    setCurrentNodeId(nodeId);
+    setViewingNodeId(null); // Ensure we are looking at live board
+    return nodeId;
+  };
+
+  // Jumps to a node: the game continues at the end of its line, the board shows the node itself
+  const selectNode = (nodeId: string) => {
+    const lineEnd = getLineEnd(tree, nodeId);
+    setCurrentNodeId(lineEnd.id);
+    setViewingNodeId(lineEnd.id === nodeId ? null : nodeId);
+    setDeadStones([]);
+  };
+
+  // Time travel along the current line (moveNum = position after that many moves)
+  const handleMoveSelect = (moveNum: number | null) => {
+    const node = moveNum === null ? null : currentPath[moveNum];
+    setViewingNodeId(node && node.id !== currentNode.id ? node.id : null);
+  };
+
+  const handleBranchSelect = (nodeId: string) => {
+    if (isAiThinking) return;
+    selectNode(nodeId);
+  };
+
+  const markAnalysis = (nodeId: string, patch: Partial<AnalysisHistoryItem>) => {
+    setAnalysisHistory(prev => prev.map(item => item.nodeId === nodeId ? { ...item, ...patch } : item));
+  };
+
+  // Requests the analysis of one move; while offline the request is queued and sent once back online.
+  // Resolves when the item is settled (analyzed, failed, cancelled or queued).
+  const runAnalysis = (nodeId: string, analyzedState: GameState, coordinate: Coordinate): Promise<void> => {
+    if (aiConfig.provider === 'local') {
+      // The offline opponent only plays, the move stays unanalyzed
+      markAnalysis(nodeId, { isLoading: false, isUnanalyzed: true });
+      return Promise.resolve();
+    }
+    if (!navigator.onLine) {
+      markAnalysis(nodeId, { isLoading: false, isQueued: true });
+      return Promise.resolve();
+    }
+
+    const session = sessionId.current;
+    const isStale = () => session !== sessionId.current;
+    const controller = new AbortController();
+    analysisControllers.current.set(nodeId, controller);
+    markAnalysis(nodeId, { isLoading: true, isQueued: false, partialAnalysis: undefined });
+
+    return analyzeMove(analyzedState, coordinate, aiConfig, {
+      signal: controller.signal,
+      onPartial: partialAnalysis => { if (!isStale()) markAnalysis(nodeId, { partialAnalysis }); }
+    }).then(({ analysis, usage }) => {
+      if (isStale()) return;
+      markAnalysis(nodeId, { analysis, isLoading: false, isUnanalyzed: false, isInvalid: false, validationErrors: undefined, isFailed: false, failureReason: undefined, partialAnalysis: undefined });
+      setTotalTokens(prev => prev + usage);
+    }).catch((err: any) => {
+      if (isStale()) return;
+      if (controller.signal.aborted) {
+        // Cancelled: back to unanalyzed, the panel offers to request it again
+        markAnalysis(nodeId, { isLoading: false, isUnanalyzed: true, partialAnalysis: undefined });
+        return;
+      }
+      if (isInvalidResponseError(err)) {
+        markAnalysis(nodeId, { isLoading: false, isInvalid: true, validationErrors: err.errors, isFailed: false, partialAnalysis: undefined, analysis: UNANALYZED });
+        setTotalTokens(prev => prev + err.usage);
+        return;
+      }
+      if (!navigator.onLine) {
+        markAnalysis(nodeId, { isLoading: false, isQueued: true });
+        return;
+      }
+      console.error(`Analysis Error (${aiConfig.provider}):`, err);
+      markAnalysis(nodeId, {
+        isLoading: false,
+        isUnanalyzed: false,
+        isFailed: true,
+        failureReason: isRateLimitError(err)
+          ? `AI (${aiConfig.provider}) 请求过于频繁，已被服务商限流，请约 ${Math.ceil(err.retryAfter / 1000)} 秒后重试。`
+          : `AI (${aiConfig.provider}) 请求失败：${err?.message || '未知错误'}，请检查网络或 API Key 后重试`,
+        partialAnalysis: undefined,
+        analysis: UNANALYZED
+      });
+    }).finally(() => {
+      if (analysisControllers.current.get(nodeId) === controller) analysisControllers.current.delete(nodeId);
+    });
+  };
+  // The review loop continues from callbacks of earlier renders: it sends with the current settings
+  const latestRunAnalysis = useRef(runAnalysis);
+  latestRunAnalysis.current = runAnalysis;
+
+  const handleCancelAnalysis = (nodeId: string) => {
+    analysisControllers.current.get(nodeId)?.abort();
+  };
+
+  // Cancels every request of the current game and starts a new session
+  const startSession = () => {
+    sessionId.current++;
+    aiMoveController.current?.abort();
+    aiMoveController.current = null;
+    analysisControllers.current.forEach(controller => controller.abort());
+    analysisControllers.current.clear();
+    reviewQueue.current = [];
+    reviewRunning.current = 0;
+    setReview(null);
+  };
+
+  // Send the queued analyses once the connection is back (also for a reopened game)
   useEffect(() => {
-    const est = estimateScore(displayGameState);
-    setScoreEst(est);
-  }, [displayGameState]); // Changed dependency to displayGameState
-
-  const handleRestart = () => {
-    const fresh = createInitialState(BOARD_SIZE);
-    setGameState(fresh);
-    setHistory([]);
-    setPrevBoard(undefined);
+    if (!isOnline) return;
+    analysisHistory.forEach(item => {
+      const node = tree.nodes[item.nodeId];
+      if (item.isQueued && node) runAnalysis(node.id, node.state, item.coordinate);
+    });
+  }, [isOnline, gameId]);
+
+  // Adds the loading placeholder for a move and requests its analysis
+  const startAnalysis = (nodeId: string, analyzedState: GameState, coordinate: Coordinate, moveNumber: number, player: PlayerColor) => {
+    setAnalysisHistory(prev => [
+      ...prev,
+      {
+        nodeId,
+        moveNumber,
+        player,
+        coordinate,
+        analysis: LOADING_ANALYSIS,
+        isLoading: true
+      }
+    ]);
+
+    // Throttling is up to the request scheduler
+    runAnalysis(nodeId, analyzedState, coordinate);
+  };
+
+  // Reopen a game from the library (or after a reload) for review or to continue it
+  const openSavedGame = (game: SavedGame) => {
+    startSession();
+    const options = restoreApiKeys(game.options);
+    skipAutosave.current = game.tree.nodes[game.tree.rootId].children.length > 0;
+    setGameId(game.id);
+    gameCreatedAt.current = game.createdAt;
+    setCurrentGameId(game.id);
+    setGameOptions(options);
+    setTree(game.tree);
+    setCurrentNodeId(game.currentNodeId);
+    // Analyses still pending when the game was saved will never arrive
+    setAnalysisHistory(game.analysisHistory.map(item => item.isLoading
+      ? { ...item, isLoading: false, isFailed: true, failureReason: "分析已中断，请重试", analysis: UNANALYZED }
+      : item
+    ));
+    setTotalTokens(game.totalTokens);
+    setViewingNodeId(null);
+    setErrorMsg(null);
+    setDeadStones([]);
+    setIsAiThinking(false);
+    setIsPaused(options.mode === 'aiVsAi'); // Spectators resume the match themselves
+  };
+
+  // A new game gets a new library entry
+  const startNewGameRecord = () => {
+    const id = createGameId();
+    setGameId(id);
+    gameCreatedAt.current = Date.now();
+    setCurrentGameId(id);
+  };
+
+  const handleRestart = (options: NewGameOptions = gameOptions) => {
+    startSession();
+    startNewGameRecord();
+    setGameOptions(options);
+    const freshTree = createGameTree(createInitialState(options.boardSize, options));
+    setTree(freshTree);
+    setCurrentNodeId(freshTree.rootId);
     setAnalysisHistory([]);
-    setViewingMoveNum(null); // Reset view
+    setViewingNodeId(null); // Reset view
     setErrorMsg(null);
     setTotalTokens(0);
+    setDeadStones([]);
     // Force reset loading states in case restart happened during AI turn
     setIsAiThinking(false);
+    setIsPaused(false);
+  };
+
+  // Provider and model, as written into exported records
+  const describeConfig = (config: AIConfig) => config.modelName ? `${config.provider} (${config.modelName})` : config.provider;
+
+  const handleExportSGF = () => {
+    const getPlayerName = (color: PlayerColor) => {
+      if (gameOptions.mode === 'hotseat') {
+        return color === PlayerColor.Black ? gameOptions.playerNames?.black : gameOptions.playerNames?.white;
+      }
+      if (gameOptions.mode === 'vsAI' && color === gameOptions.humanColor) return 'Human';
+      return describeConfig(getAIConfigFor(color));
+    };
+
+    downloadSGF(tree, analysisHistory, {
+      blackPlayer: getPlayerName(PlayerColor.Black),
+      whitePlayer: getPlayerName(PlayerColor.White),
+      analysisModel: describeConfig(aiConfig),
+      result: gameState.result
+    });
+  };
+
+  // Load an SGF record for review: its moves and variations become the tree, nothing is analyzed yet
+  const handleImportSGF = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-importing the same file
+    if (!file) return;
+
+    try {
+      const { info, tree: importedTree, mainLineEndId, moves } = importSGF(await file.text());
+      startSession();
+      startNewGameRecord();
+      setGameOptions({
+        boardSize: info.boardSize,
+        koRule: 'simple',
+        handicap: info.handicap,
+        komi: info.komi,
+        mode: 'hotseat',
+        humanColor: PlayerColor.Black,
+        playerNames: { black: info.blackPlayer, white: info.whitePlayer }
+      });
+      setTree(importedTree);
+      setCurrentNodeId(mainLineEndId);
+      setAnalysisHistory(moves.flatMap(m => m.coordinate ? [{
+        nodeId: m.nodeId,
+        moveNumber: m.moveNumber,
+        player: m.player,
+        coordinate: m.coordinate,
+        analysis: UNANALYZED,
+        isUnanalyzed: true,
+        comment: m.comment
+      }] : []));
+      setViewingNodeId(null);
+      setErrorMsg(null);
+      setTotalTokens(0);
+      setDeadStones([]);
+      setIsAiThinking(false);
+      setIsPaused(false);
+    } catch (err: any) {
+      console.error("SGF import failed", err);
+      setErrorMsg(`棋谱导入失败: ${err.message}`);
+      setTimeout(() => setErrorMsg(null), 3000);
+    }
   };
 
   const handleUndo = () => {
     if (isAiThinking) return;
-    if (history.length === 0) return;
+    if (currentPath.length <= 1) return;
 
-    let stepsToUndo = 1;
-    const newHistory = [...history];
-    let targetState = newHistory.pop();
+    let targetIndex = currentPath.length - 2;
 
-    // If AI just moved, undo both AI and Player
-    if (targetState && targetState.currentPlayer === PlayerColor.White && newHistory.length > 0) {
-       targetState = newHistory.pop();
-       stepsToUndo = 2; // Logic might vary depending on exact turn sequence, but generally we pop states
+    if (gameOptions.mode === 'aiVsAi') {
+      // Spectating: step back a single move and stop the match there
+      setIsPaused(true);
+    } else if (gameOptions.mode === 'vsAI') {
+      // If AI just moved, undo both AI and Player
+      while (targetIndex > 0 && isAITurn(currentPath[targetIndex].state)) {
+        targetIndex--;
+      }
+
+      // A game that opens with the AI's move (handicap): never undo back to before it
+      if (isAITurn(currentPath[targetIndex].state)) return;
     }
 
-    if (targetState) {
-      setGameState(targetState);
-      setHistory(newHistory);
-      setPrevBoard(newHistory.length > 0 ? newHistory[newHistory.length - 1].board : undefined);
-      setViewingMoveNum(null); // Reset view on undo
+    // Taking moves back deletes them (with any branches below them)
+    const nextTree = removeSubtree(tree, currentPath[targetIndex + 1].id);
+    setTree(nextTree);
+    setCurrentNodeId(currentPath[targetIndex].id);
+    setViewingNodeId(null); // Reset view on undo
+    setDeadStones([]);
 
-      // Sync Analysis History: Remove the last N entries
-      const currentMoveCount = targetState.moveHistory.length;
-      setAnalysisHistory(prev => prev.filter(item => item.moveNumber <= currentMoveCount));
-    }
+    // Sync Analysis History: drop the analyses of the removed nodes and stop their requests
+    analysisControllers.current.forEach((controller, nodeId) => {
+      if (!nextTree.nodes[nodeId]) controller.abort();
+    });
+    reviewQueue.current = reviewQueue.current.filter(task => nextTree.nodes[task.nodeId]);
+    setAnalysisHistory(prev => prev.filter(item => nextTree.nodes[item.nodeId]));
+  };
+
+  // Counting: clicking a stone toggles its whole group dead/alive
+  const handleToggleDead = (x: number, y: number) => {
+    const group = getGroup(gameState.board, { x, y });
+    if (group.length === 0) return;
+
+    const isDead = deadStones.some(p => p.x === x && p.y === y);
+    setDeadStones(prev => isDead
+      ? prev.filter(p => !group.some(g => g.x === p.x && g.y === p.y))
+      : [...prev, ...group]
+    );
+  };
+
+  const handleConfirmScore = () => {
+    if (!scoreResult) return;
+    setTree(prev => updateNodeState(prev, currentNode.id, { ...gameState, result: scoreResult.result }));
   };
 
   // 手动触发某步棋的分析
   const handleAnalyzeMove = (moveNum: number) => {
-    // 找到对应的历史状态和坐标
-    if (moveNum <= 0 || moveNum > history.length) return;
-
-    // history[moveNum-1] 存储的是第 moveNum 手落子前的状态
-    // 需要获取该步的状态来分析
-    const stateToAnalyze = history[moveNum - 1];
-    const moveItem = analysisHistory.find(item => item.moveNumber === moveNum);
-    if (!stateToAnalyze || !moveItem) return;
-
-    // 设置为 loading
-    setAnalysisHistory(prev => prev.map(item => {
-      if (item.moveNumber === moveNum) {
-        return { ...item, isLoading: true };
+    // 找到对应的节点和坐标：currentPath[moveNum] 是当前分支第 moveNum 手落子后的局面
+    const node = currentPath[moveNum];
+    if (moveNum <= 0 || !node) return;
+
+    const moveItem = analysisHistory.find(item => item.nodeId === node.id);
+    if (!moveItem) return;
+
+    if (aiConfig.provider === 'local') {
+      setErrorMsg("离线对手不提供分析，请在模型设置中选择在线模型");
+      setTimeout(() => setErrorMsg(null), 3000);
+      return;
+    }
+    runAnalysis(node.id, node.state, moveItem.coordinate);
+  };
+
+  // Sends review tasks until REVIEW_CONCURRENCY are in flight; each finished one sends the next
+  const pumpReview = () => {
+    const session = sessionId.current;
+    while (!reviewPaused.current && reviewRunning.current < REVIEW_CONCURRENCY && reviewQueue.current.length > 0) {
+      if (!navigator.onLine) {
+        // Offline: hold the rest instead of queueing the whole game at once
+        reviewPaused.current = true;
+        setReview(prev => prev && { ...prev, isPaused: true });
+        return;
       }
-      return item;
-    }));
-
-    // 调用分析 API
-    analyzeMove(stateToAnalyze, moveItem.coordinate, aiConfig).then(({ analysis, usage }) => {
-      setAnalysisHistory(prev => prev.map(item => {
-        if (item.moveNumber === moveNum) {
-          return { ...item, analysis, isLoading: false };
-        }
-        return item;
-      }));
-      setTotalTokens(prev => prev + usage);
-    }).catch(err => {
-      setAnalysisHistory(prev => prev.map(item => {
-        if (item.moveNumber === moveNum) {
-          return {
-            ...item,
-            isLoading: false,
-            analysis: {
-              evaluation: '普通',
-              score: 75,
-              title: '分析失败',
-              detailedAnalysis: '网络错误，请重试',
-              strategicContext: '...',
-              josekiOrProverbs: [],
-              territoryChange: 0,
-              variations: []
-            }
-          };
-        }
-        return item;
-      }));
-    });
+      if (latestAiConfig.current.provider === 'local') {
+        // Switched to the offline opponent mid-review: it cannot analyze, hold the rest
+        reviewPaused.current = true;
+        setReview(prev => prev && { ...prev, isPaused: true });
+        setErrorMsg("离线对手不提供分析，请在模型设置中选择在线模型");
+        setTimeout(() => setErrorMsg(null), 3000);
+        return;
+      }
+      const task = reviewQueue.current.shift()!;
+      const item = latestAnalyses.current.find(i => i.nodeId === task.nodeId);
+      if (!item || !needsAnalysis(item)) {
+        setReview(prev => prev && { ...prev, done: prev.done + 1 });
+        continue;
+      }
+      reviewRunning.current++;
+      latestRunAnalysis.current(task.nodeId, task.state, task.coordinate).finally(() => {
+        if (session !== sessionId.current) return;
+        reviewRunning.current--;
+        setReview(prev => prev && { ...prev, done: prev.done + 1 });
+        pumpReview();
+      });
+    }
+    if (reviewQueue.current.length === 0 && reviewRunning.current === 0) {
+      setReview(null);
+      setErrorMsg("全盘复盘已结束");
+      setTimeout(() => setErrorMsg(null), 2000);
+    }
   };
 
-  const makeMove = async (x: number, y: number) => {
-    // If viewing history, jump to latest before playing? Or block?
-    // Let's just block if not looking at latest, OR implicitly jump to latest.
-    // Standard behavior: if you play, you play from the current actual state.
-    // The UI should probably reflect we are back to latest.
-    if (viewingMoveNum !== null && viewingMoveNum !== gameState.moveHistory.length) {
-       // Optional: Auto-jump to latest
-       setViewingMoveNum(null);
+  // Analyzes every move of the current line that has no (successful) analysis yet
+  const handleStartReview = () => {
+    if (review) return;
+    if (aiConfig.provider === 'local') {
+      setErrorMsg("离线对手不提供分析，请在模型设置中选择在线模型");
+      setTimeout(() => setErrorMsg(null), 3000);
+      return;
+    }
+    const tasks = lineItems.filter(needsAnalysis).flatMap(item => {
+      const node = tree.nodes[item.nodeId];
+      return node ? [{ nodeId: node.id, state: node.state, coordinate: item.coordinate }] : [];
+    });
+    if (tasks.length === 0) {
+      setErrorMsg("本局所有着法均已分析");
+      setTimeout(() => setErrorMsg(null), 2000);
+      return;
     }
+    reviewQueue.current = tasks;
+    reviewPaused.current = false;
+    setReview({ total: tasks.length, done: 0, isPaused: false });
+    pumpReview();
+  };
+
+  // Pausing only holds back the moves not sent yet
+  const handleToggleReviewPause = () => {
+    if (!review) return;
+    reviewPaused.current = !review.isPaused;
+    setReview({ ...review, isPaused: reviewPaused.current });
+    if (!reviewPaused.current) pumpReview();
+  };
+
+  const handleStopReview = () => {
+    reviewQueue.current = [];
+    if (reviewRunning.current === 0) setReview(null);
+    else setReview(prev => prev && { ...prev, total: prev.done + reviewRunning.current });
+  };
+
+  // Plays on the board as displayed: from a past position this starts a new branch
+  const makeMove = (x: number, y: number) => {
+    const baseNode = displayNode;
+    const baseState = baseNode.state;
+    if (baseState.isGameOver || isAITurn(baseState)) return;
 
     // 1. Player Move
-    const result = playMove(gameState, x, y);
+    const result = playMove(baseState, x, y);
     if (!result.success || !result.newState) {
       setErrorMsg(result.error || "Invalid move");
       setTimeout(() => setErrorMsg(null), 2000);
       return;
     }
 
-    // Save history
-    const currentHistory = [...history, gameState];
-    setHistory(currentHistory);
-    setPrevBoard(gameState.board);
-    
-    // Update State
+    // Replaying a move that is already in the tree just follows it
     const playerMovedState = result.newState;
-    setGameState(playerMovedState);
-    setViewingMoveNum(null); // Ensure we are looking at live board
+    const existing = findChild(tree, baseNode.id, playerMovedState.moveHistory[playerMovedState.moveHistory.length - 1]);
+    if (existing) {
+      selectNode(existing.id);
+      return;
+    }
+
+    // Save history & Update State
+    const nodeId = commitState(baseNode.id, playerMovedState);
     
     // Current Move Number (1-based)
     const currentMoveNum = playerMovedState.moveHistory.length;
-    const currentPlayerColor = gameState.currentPlayer; // Who JUST moved
+    const currentPlayerColor = baseState.currentPlayer; // Who JUST moved
 
     // 2. Trigger Analysis (Parallel) - WITH PLACEHOLDER
-    setAnalysisHistory(prev => [
-      ...prev,
-      {
-        moveNumber: currentMoveNum,
-        player: currentPlayerColor,
-        coordinate: {x, y},
-        analysis: LOADING_ANALYSIS,
-        isLoading: true
-      }
-    ]);
+    startAnalysis(nodeId, playerMovedState, { x, y }, currentMoveNum, currentPlayerColor);
 
-    // 延迟分析以避免限流
-    const analyzeDelay = 0;
-    setTimeout(() => {
-      analyzeMove(playerMovedState, { x, y }, aiConfig).then(({ analysis, usage }) => {
-        setAnalysisHistory(prev => prev.map(item => {
-          if (item.moveNumber === currentMoveNum) {
-            return { ...item, analysis, isLoading: false };
-          }
-          return item;
-        }));
-        setTotalTokens(prev => prev + usage);
-      }).catch(() => {
-        setAnalysisHistory(prev => prev.map(item => {
-          if (item.moveNumber === currentMoveNum) {
-            return {
-              ...item,
-              isLoading: false,
-              analysis: { ...LOADING_ANALYSIS, title: "分析失败", detailedAnalysis: "请求过多，请重试" }
-            };
-          }
-          return item;
-        }));
+    // 3. AI Turn: picked up by the turn effect once the state has updated
+  };
+
+  // Plays the previewed stones as a new branch from the position before the analyzed move.
+  // Moves already in the tree are followed; new ones wait for analysis like imported moves.
+  const handleTryVariation = () => {
+    if (!preview || isAiThinking) return;
+    let nextTree = tree;
+    let parentId = preview.parentId;
+    let state = preview.state;
+    const items: AnalysisHistoryItem[] = [];
+
+    for (const stone of preview.stones) {
+      const result = playMove(state, stone.coordinate.x, stone.coordinate.y);
+      if (!result.success || !result.newState) break;
+      state = result.newState;
+      const existing = findChild(nextTree, parentId, state.moveHistory[state.moveHistory.length - 1]);
+      if (existing) {
+        parentId = existing.id;
+        continue;
+      }
+      const nodeId = createNodeId();
+      nextTree = addNode(nextTree, parentId, nodeId, state);
+      items.push({
+        nodeId,
+        moveNumber: state.moveHistory.length,
+        player: stone.color,
+        coordinate: stone.coordinate,
+        analysis: UNANALYZED,
+        isUnanalyzed: true
       });
-    }, analyzeDelay);
+      parentId = nodeId;
+    }
+
+    const lineEnd = getLineEnd(nextTree, parentId);
+    setTree(nextTree);
+    setAnalysisHistory(prev => [...prev, ...items]);
+    setCurrentNodeId(lineEnd.id);
+    setViewingNodeId(lineEnd.id === parentId ? null : parentId);
+    setVariationPreview(null);
+    setHoveredVariation(null);
+    setDeadStones([]);
+  };
+
+  // Player passes; the AI answers unless this pass ended the game
+  const handlePass = () => {
+    const baseState = displayNode.state;
+    if (isAiThinking || baseState.isGameOver || isAITurn(baseState)) return;
+
+    const result = passMove(baseState);
+    if (!result.success || !result.newState) return;
+
+    commitState(displayNode.id, result.newState);
+  };
+
+  const handleResign = () => {
+    const baseState = displayNode.state;
+    if (isAiThinking || baseState.isGameOver || isAITurn(baseState)) return;
+    if (!window.confirm("确定要认输吗？")) return;
+
+    const result = resignGame(baseState);
+    if (!result.success || !result.newState) return;
+
+    commitState(displayNode.id, result.newState);
+  };
 
-    // 3. AI Turn
+  const playAITurn = async (parentId: string, playerMovedState: GameState) => {
     setIsAiThinking(true);
     setErrorMsg(null);
+    const moveConfig = getAIConfigFor(playerMovedState.currentPlayer);
+    const session = sessionId.current;
+    const isStale = () => session !== sessionId.current;
+    const controller = new AbortController();
+    aiMoveController.current = controller;
 
     try {
       let aiAttempts = 0;
       let validMoveFound = false;
-      const invalidCandidates: Coordinate[] = [];
+      // The ko point is never a legal answer, tell the AI up front
+      const invalidCandidates: Coordinate[] = playerMovedState.koPoint ? [playerMovedState.koPoint] : [];
       const MAX_ATTEMPTS = 3;
       
       // AI Retry Loop
       while (!validMoveFound && aiAttempts <= MAX_ATTEMPTS) {
         try {
           // getAIMove now returns { move, usage }
-          const { move: aiCoords, usage } = await getAIMove(playerMovedState, invalidCandidates, aiConfig);
+          const { move: aiCoords, usage } = await getAIMove(playerMovedState, invalidCandidates, moveConfig, controller.signal);
+          if (isStale()) return; // The game was restarted or replaced meanwhile
           
           if (usage) setTotalTokens(prev => prev + usage);
 
-          if (aiCoords) {
+          if (aiCoords === 'pass' || aiCoords === 'resign') {
+            const aiResult = aiCoords === 'pass' ? passMove(playerMovedState) : resignGame(playerMovedState);
+            if (aiResult.success && aiResult.newState) {
+              commitState(parentId, aiResult.newState);
+              validMoveFound = true;
+              if (aiCoords === 'pass' && !aiResult.newState.isGameOver) {
+                setErrorMsg("AI 停着 (Pass)");
+                setTimeout(() => setErrorMsg(null), 2000);
+              }
+            } else {
+              aiAttempts++;
+            }
+          } else if (aiCoords) {
             const aiResult = playMove(playerMovedState, aiCoords.x, aiCoords.y);
             
             if (aiResult.success && aiResult.newState) {
                // Success!
                const aiMoveNum = playerMovedState.moveHistory.length + 1;
                
-               setHistory(prev => [...prev, playerMovedState]);
-               setPrevBoard(playerMovedState.board);
-               setGameState(aiResult.newState);
-               setViewingMoveNum(null); // Ensure live view
+               const nodeId = commitState(parentId, aiResult.newState);
                validMoveFound = true;
 
                // AI 落子后触发分析
-               setAnalysisHistory(prev => [
-                ...prev,
-                {
-                  moveNumber: aiMoveNum,
-                  player: PlayerColor.White,
-                  coordinate: aiCoords,
-                  analysis: LOADING_ANALYSIS,
-                  isLoading: true
-                }
-               ]);
-
-               // 延迟分析以避免限流
-               const aiAnalyzeDelay = 0;
-               setTimeout(() => {
-                 analyzeMove(aiResult.newState, aiCoords, aiConfig).then(({ analysis: aiAnalysisResult, usage: analysisUsage }) => {
-                    setAnalysisHistory(prev => prev.map(item => {
-                      if (item.moveNumber === aiMoveNum) {
-                        return { ...item, analysis: aiAnalysisResult, isLoading: false };
-                      }
-                      return item;
-                    }));
-                    setTotalTokens(prev => prev + analysisUsage);
-                 }).catch(() => {
-                    setAnalysisHistory(prev => prev.map(item => {
-                      if (item.moveNumber === aiMoveNum) {
-                        return {
-                          ...item,
-                          isLoading: false,
-                          analysis: { ...LOADING_ANALYSIS, title: "分析失败", detailedAnalysis: "请求过多，请重试" }
-                        };
-                      }
-                      return item;
-                    }));
-                 });
-               }, aiAnalyzeDelay);
+               startAnalysis(nodeId, aiResult.newState, aiCoords, aiMoveNum, playerMovedState.currentPlayer);
 
             } else {
                console.warn(`AI attempted invalid move at ${aiCoords.x},${aiCoords.y}: ${aiResult.error}. Retrying...`);
@@ -336,42 +879,75 @@ const App: React.FC = () => {
              aiAttempts++;
           }
         } catch (innerError) {
+           if (isStale()) return;
            console.warn("AI generation error, retrying...", innerError);
            aiAttempts++;
         }
       }
 
-      // FALLBACK: If AI failed all attempts, play a random valid move to keep game alive
+      // FALLBACK: If AI failed all attempts, the local engine plays to keep the game alive
       if (!validMoveFound) {
-        console.warn("AI exceeded max attempts. Falling back to random valid move.");
-        const fallbackMove = getRandomValidMove(playerMovedState);
+        console.warn("AI exceeded max attempts. Falling back to the local engine.");
+        const fallbackMove = await getLocalMove(playerMovedState, { signal: controller.signal });
+        if (isStale()) return;
         
-        if (fallbackMove) {
+        if (fallbackMove !== 'pass') {
             const fbResult = playMove(playerMovedState, fallbackMove.x, fallbackMove.y);
             if (fbResult.success && fbResult.newState) {
-                setHistory(prev => [...prev, playerMovedState]);
-                setPrevBoard(playerMovedState.board);
-                setGameState(fbResult.newState);
-                setViewingMoveNum(null);
-                setErrorMsg("AI 遇到困难，已随机落子");
+                const nodeId = commitState(parentId, fbResult.newState);
+                startAnalysis(nodeId, fbResult.newState, fallbackMove, playerMovedState.moveHistory.length + 1, playerMovedState.currentPlayer);
+                setErrorMsg("AI 遇到困难，已由本地引擎代为落子");
                 setTimeout(() => setErrorMsg(null), 2000);
             }
         } else {
-            setErrorMsg("无路可走 (Game Over?)");
+            // No legal point left: the AI passes
+            const passResult = passMove(playerMovedState);
+            if (passResult.success && passResult.newState) {
+                commitState(parentId, passResult.newState);
+            }
         }
       }
 
     } catch (e: any) {
+      if (isStale()) return;
       console.error("AI Critical Error", e);
       setErrorMsg(`AI Error: ${e.message}`);
     } finally {
-      setIsAiThinking(false);
+      if (aiMoveController.current === controller) aiMoveController.current = null;
+      // A new session resets the thinking state itself and may already be thinking again
+      if (!isStale()) setIsAiThinking(false);
     }
   };
 
+  // Game loop: whenever it becomes an AI's turn, let it move
+  useEffect(() => {
+    if (!isAITurn(gameState) || isAiThinking) return;
+    if (gameOptions.mode === 'aiVsAi' && isPaused) return;
+
+    const delay = gameOptions.mode === 'aiVsAi' ? aiMoveDelay : 0;
+    const timer = setTimeout(() => playAITurn(currentNode.id, gameState), delay);
+    return () => clearTimeout(timer);
+  }, [currentNode.id, gameState, isAiThinking, isPaused, gameOptions]);
+
   return (
     <div className="h-screen w-full bg-[#f2efe9] flex flex-col md:flex-row text-ink font-serif overflow-hidden">
       
+      {/* New Game Modal */}
+      <NewGameModal
+        isOpen={isNewGameOpen}
+        onClose={() => setIsNewGameOpen(false)}
+        currentOptions={gameOptions}
+        onStart={handleRestart}
+      />
+
+      {/* Game Library Modal */}
+      <GameLibraryModal
+        isOpen={isLibraryOpen}
+        onClose={() => setIsLibraryOpen(false)}
+        currentGameId={gameId}
+        onOpen={openSavedGame}
+      />
+
       {/* Settings Modal */}
       <SettingsModal 
         isOpen={isSettingsOpen} 
@@ -396,6 +972,22 @@ const App: React.FC = () => {
                 <span className="text-[10px] font-mono text-stone-500">{totalTokens.toLocaleString()}</span>
             </div>
 
+            {/* Offline Indicator */}
+            {!isOnline && (
+              <div className="flex items-center gap-1.5 px-2 py-1 bg-amber-50 rounded-md border border-amber-200 text-amber-700 mr-2" title="离线中：可继续双人对弈与复盘，AI 分析将在联网后发送">
+                <WifiOff size={12} />
+                <span className="text-[10px] font-medium">离线{queuedCount > 0 ? ` · ${queuedCount} 待分析` : ''}</span>
+              </div>
+            )}
+
+            {/* Request Queue Indicator */}
+            {pendingRequests > 0 && (
+              <div className="flex items-center gap-1.5 px-2 py-1 bg-stone-50 rounded-md border border-stone-200 text-stone-500 mr-2" title="为避免触发服务商限流，部分 AI 请求正在排队（落子优先于分析）">
+                <Hourglass size={12} />
+                <span className="text-[10px] font-medium">排队 {pendingRequests}</span>
+              </div>
+            )}
+
             {/* Model Switcher Button */}
             <button
                onClick={() => setIsSettingsOpen(true)}
@@ -406,9 +998,52 @@ const App: React.FC = () => {
                <span className="font-medium hidden sm:inline uppercase">{aiConfig.provider}</span>
             </button>
 
+            {/* Spectator Controls (AI vs AI) */}
+            {gameOptions.mode === 'aiVsAi' && (
+              <div className="flex items-center gap-1 mr-2">
+                <select
+                  value={aiMoveDelay}
+                  onChange={(e) => setAiMoveDelay(Number(e.target.value))}
+                  className="px-2 py-1.5 bg-white rounded-md shadow-sm border border-stone-200 text-stone-600 text-xs focus:outline-none focus:border-accent-gold"
+                  title="落子速度"
+                >
+                  {AI_MOVE_DELAYS.map(d => (
+                    <option key={d.ms} value={d.ms}>{d.label}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => setIsPaused(p => !p)}
+                  disabled={gameState.isGameOver}
+                  className="p-1.5 bg-white rounded-md shadow-sm border border-stone-200 text-stone-600 hover:text-ink hover:border-accent-gold transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                  title={isPaused ? '继续' : '暂停'}
+                >
+                  {isPaused ? <Play size={16} /> : <Pause size={16} />}
+                </button>
+              </div>
+            )}
+
+            <button 
+              onClick={handlePass}
+              disabled={isAiThinking || displayGameState.isGameOver || isAITurn(displayGameState)}
+              className="px-3 py-1.5 bg-white rounded-md shadow-sm border border-stone-200 text-stone-600 hover:text-ink hover:border-accent-gold transition-all flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed text-xs"
+              title="停一手"
+            >
+              <Hand size={14} />
+              <span className="font-medium">停着</span>
+            </button>
+
+            <button 
+              onClick={handleResign}
+              disabled={isAiThinking || displayGameState.isGameOver || isAITurn(displayGameState)}
+              className="p-1.5 bg-white rounded-md shadow-sm border border-stone-200 text-stone-600 hover:text-red-600 hover:border-red-200 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              title="认输"
+            >
+              <Flag size={16} />
+            </button>
+
             <button 
               onClick={handleUndo}
-              disabled={history.length === 0 || isAiThinking}
+              disabled={currentPath.length <= 1 || isAiThinking}
               className="px-3 py-1.5 bg-white rounded-md shadow-sm border border-stone-200 text-stone-600 hover:text-ink hover:border-accent-gold transition-all flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed text-xs"
               title="悔棋"
             >
@@ -416,8 +1051,27 @@ const App: React.FC = () => {
               <span className="font-medium">悔棋</span>
             </button>
 
+            <button
+              onClick={() => setIsLibraryOpen(true)}
+              disabled={isAiThinking}
+              className="p-1.5 bg-white rounded-md shadow-sm border border-stone-200 text-stone-600 hover:text-ink hover:border-accent-gold transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              title="棋谱库"
+            >
+              <Library size={16} />
+            </button>
+
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isAiThinking}
+              className="p-1.5 bg-white rounded-md shadow-sm border border-stone-200 text-stone-600 hover:text-ink hover:border-accent-gold transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              title="导入棋谱 (SGF)"
+            >
+              <FileUp size={16} />
+            </button>
+            <input ref={fileInputRef} type="file" accept=".sgf" onChange={handleImportSGF} className="hidden" />
+
             <button 
-              onClick={handleRestart}
+              onClick={() => setIsNewGameOpen(true)}
               className="p-1.5 bg-white rounded-md shadow-sm border border-stone-200 text-stone-600 hover:text-red-600 hover:border-red-200 transition-all"
               title="重新开始"
             >
@@ -431,10 +1085,55 @@ const App: React.FC = () => {
           <div className="relative h-full w-full flex items-center justify-center">
             <div className="relative aspect-square h-full max-h-[calc(100vh-9rem)] shadow-2xl rounded-sm">
               <Board 
-                gameState={displayGameState} 
-                onIntersectClick={(x, y) => !isAiThinking && makeMove(x, y)}
-                prevBoardState={prevBoard} // Ideally, this should also reflect history if viewing past, but might be minor visual glitch
+                gameState={preview?.board ?? displayGameState} 
+                onIntersectClick={(x, y) => isScoring && isCountedView ? handleToggleDead(x, y) : !isAiThinking && makeMove(x, y)}
+                prevBoardState={preview ? undefined : prevBoard}
+                isLocked={!!preview || (!(isScoring && isCountedView) && (displayGameState.isGameOver || gameOptions.mode === 'aiVsAi'))}
+                ownership={preview ? null : scoreResult?.ownership ?? engineOwnership}
+                deadStones={isCountedView && !preview ? deadStones : undefined}
+                ghostStones={preview?.ghostStones}
               />
+
+              {/* Counting Panel */}
+              {isScoring && scoreResult && (
+                <div className="absolute top-4 left-1/2 transform -translate-x-1/2 z-30 flex flex-col items-center gap-2 px-5 py-3 bg-white/90 backdrop-blur-md rounded-lg shadow-lg border border-accent-gold/40">
+                  <span className="text-[10px] text-stone-500">点击棋子标记死子，再确认结果</span>
+                  <div className="flex items-center bg-stone-100/50 rounded-full border border-stone-200/60 p-0.5">
+                    {(['chinese', 'japanese'] as ScoringRule[]).map(rule => (
+                      <button
+                        key={rule}
+                        onClick={() => setScoringRule(rule)}
+                        className={`px-3 py-0.5 rounded-full text-xs transition-all ${scoringRule === rule ? 'bg-white shadow-sm text-ink font-bold' : 'text-stone-500'}`}
+                      >
+                        {rule === 'chinese' ? '数子 (中国规则)' : '数目 (日本规则)'}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="flex items-center gap-4 text-xs font-mono text-stone-600">
+                    <span>黑 {scoreResult.blackScore}</span>
+                    <span>白 {scoreResult.whiteScore}</span>
+                    <span className="font-bold text-ink">{formatResult(scoreResult.result)}</span>
+                  </div>
+                  <button
+                    onClick={handleConfirmScore}
+                    className="px-4 py-1 bg-stone-800 hover:bg-black text-white text-xs font-bold rounded-full shadow transition-all active:scale-95"
+                  >
+                    确认结果
+                  </button>
+                </div>
+              )}
+
+              {/* Result Banner */}
+              {gameState.isGameOver && !isScoring && (
+                <div className="absolute top-4 left-1/2 transform -translate-x-1/2 z-30 flex items-center gap-3 px-5 py-2 bg-white/90 backdrop-blur-md rounded-full shadow-lg border border-accent-gold/40">
+                  <Trophy size={16} className="text-accent-gold" />
+                  <span className="text-sm font-bold text-ink tracking-wide">
+                    {gameState.result && (gameState.result.winner
+                      ? `${gameState.result.winner === PlayerColor.Black ? '黑' : '白'}胜 · ${formatResult(gameState.result)}`
+                      : '和棋 (Jigo)')}
+                  </span>
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -449,7 +1148,7 @@ const App: React.FC = () => {
                   </div>
                   <div className="flex flex-col">
                     <span className={`text-sm font-bold ${displayGameState.currentPlayer === PlayerColor.Black ? 'text-ink' : 'text-stone-400'}`}>Black</span>
-                    <span className="text-[10px] text-stone-500">提子: {displayGameState.capturedWhite}</span>
+                    <span className="text-[10px] text-stone-500">提子: {displayGameState.capturedWhite} · {getPlayerLabel(PlayerColor.Black)}</span>
                   </div>
               </div>
 
@@ -458,16 +1157,22 @@ const App: React.FC = () => {
                  <div className="flex items-center gap-1.5 px-3 py-1 rounded-full bg-stone-100/80 border border-stone-200 shadow-inner">
                     <Activity size={12} className="text-accent-gold" />
                     <span className="text-xs font-bold text-stone-600 font-mono">
-                       {scoreEst?.leadColor === PlayerColor.Black ? `B+${scoreEst.diff.toFixed(1)}` : `W+${scoreEst?.diff.toFixed(1)}`}
+                       {gameState.result && displayGameState === gameState
+                         ? formatResult(gameState.result)
+                         : scoreEst?.leadColor === PlayerColor.Black ? `B+${scoreEst.diff.toFixed(1)}` : `W+${scoreEst?.diff.toFixed(1)}`}
                     </span>
                  </div>
+                 <span className="text-[9px] text-stone-400 mt-0.5">
+                    {gameState.komi < 0 ? `反贴 ${-gameState.komi}` : `贴 ${gameState.komi}`}
+                    {gameState.handicap > 0 && ` · 让 ${gameState.handicap} 子`}
+                 </span>
               </div>
 
               {/* White Stats */}
               <div className="flex items-center gap-3 opacity-90">
                   <div className="flex flex-col items-end">
                     <span className={`text-sm font-bold ${displayGameState.currentPlayer === PlayerColor.White ? 'text-ink' : 'text-stone-400'}`}>White</span>
-                    <span className="text-[10px] text-stone-500">提子: {displayGameState.capturedBlack}</span>
+                    <span className="text-[10px] text-stone-500">{getPlayerLabel(PlayerColor.White)} · 提子: {displayGameState.capturedBlack}</span>
                   </div>
                   <div className={`w-8 h-8 rounded-full bg-white shadow-lg border-2 flex items-center justify-center transition-all ${displayGameState.currentPlayer === PlayerColor.White ? 'border-accent-gold scale-110' : 'border-stone-300'}`}>
                     <span className="text-[10px] text-black/50">白</span>
@@ -485,12 +1190,27 @@ const App: React.FC = () => {
 
       {/* Right Column: Analysis Sidebar */}
       <AnalysisPanel
-        history={analysisHistory}
+        history={lineItems}
         isLoading={isAnalyzing}
         currentMoveNumber={displayGameState.moveHistory.length}
-        selectedMoveNumber={viewingMoveNum}
-        onMoveSelect={(num) => setViewingMoveNum(num)}
+        selectedMoveNumber={viewingNodeId ? displayGameState.moveHistory.length : null}
+        onMoveSelect={handleMoveSelect}
         onAnalyze={handleAnalyzeMove}
+        onCancelAnalysis={handleCancelAnalysis}
+        review={review}
+        onStartReview={handleStartReview}
+        onToggleReviewPause={handleToggleReviewPause}
+        onStopReview={handleStopReview}
+        branchOptions={branchOptions}
+        onBranchSelect={handleBranchSelect}
+        graph={graphPoints}
+        variationPreview={preview?.isPinned ? { index: variationPreview!.index, step: preview.step, total: preview.total } : null}
+        onPreviewVariation={handlePreviewVariation}
+        onHoverVariation={handleHoverVariation}
+        onStepVariation={handleStepVariation}
+        onTryVariation={isAiThinking ? undefined : handleTryVariation}
+        onExportSGF={handleExportSGF}
+        boardSize={gameState.boardSize}
       />
 
     </div>
@@ -1,11 +1,35 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { MoveAnalysis, PlayerColor, AnalysisHistoryItem } from '../types';
+import { MoveAnalysis, PlayerColor, AnalysisHistoryItem, Coordinate, ReviewProgress, GraphPoint, EvaluationKey } from '../types';
 import {
   Brain, TrendingUp, TrendingDown, BookOpen, Compass, Target,
-  History, ChevronUp, ChevronDown, CircleDot, ChevronLeft, ChevronRight, Download
+  History, ChevronUp, ChevronDown, CircleDot, ChevronLeft, ChevronRight, Download,
+  MessageSquare, GitBranch, FileDown, WifiOff, X, ListChecks, Play, Pause, Square, AlertTriangle, Eye, ChartLine,
+  Sparkles, ThumbsUp, Minus, Snail, CircleAlert, CircleX, LucideIcon
 } from 'lucide-react';
 import { downloadGameRecord } from '../services/exportService';
+import { toHumanCoordinate } from '../services/coordinates';
+import { getGrade } from '../services/evaluationGrades';
+import { formatVariation } from '../services/variations';
+import GameGraph from './GameGraph';
+
+// Headline icon per move quality grade
+const GRADE_ICONS: Record<EvaluationKey, LucideIcon> = {
+  brilliant: Sparkles,
+  good: ThumbsUp,
+  normal: Minus,
+  slow: Snail,
+  questionable: CircleAlert,
+  regrettable: CircleX,
+};
+
+// One of the moves played from the same position (game tree siblings)
+export interface BranchOption {
+  nodeId: string;
+  player: PlayerColor;
+  coordinate: Coordinate | null; // null for a pass
+  isActive: boolean; // On the line currently shown
+}
 
 interface AnalysisPanelProps {
   history: AnalysisHistoryItem[];
@@ -14,6 +38,21 @@ interface AnalysisPanelProps {
   selectedMoveNumber: number | null; // Controlled prop
   onMoveSelect: (moveNum: number | null) => void; // Callback
   onAnalyze?: (moveNum: number) => void; // Callback to trigger analysis
+  onCancelAnalysis?: (nodeId: string) => void; // Stop a pending analysis
+  onExportSGF?: () => void; // Download the game with commentary as SGF
+  review?: ReviewProgress | null; // Full review in progress
+  onStartReview?: () => void;
+  onToggleReviewPause?: () => void;
+  onStopReview?: () => void;
+  branchOptions?: Record<number, BranchOption[]>; // Alternatives by move number, where the line branches
+  onBranchSelect?: (nodeId: string) => void;
+  graph?: GraphPoint[]; // Score lead and move quality of every position on the line
+  variationPreview?: { index: number; step: number; total: number } | null; // Clicked variation of the shown move, drawn on the board
+  onPreviewVariation?: (nodeId: string, index: number | null) => void; // Click: keep it on the board
+  onHoverVariation?: (nodeId: string, index: number | null) => void; // Hover: show it while the pointer is there
+  onStepVariation?: (delta: number) => void; // Show one stone more or less
+  onTryVariation?: () => void; // Play the shown stones as a new branch
+  boardSize: number;
 }
 
 const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
@@ -22,9 +61,25 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
   currentMoveNumber,
   selectedMoveNumber,
   onMoveSelect,
-  onAnalyze
+  onAnalyze,
+  onCancelAnalysis,
+  onExportSGF,
+  review,
+  onStartReview,
+  onToggleReviewPause,
+  onStopReview,
+  branchOptions = {},
+  onBranchSelect,
+  graph,
+  variationPreview = null,
+  onPreviewVariation,
+  onHoverVariation,
+  onStepVariation,
+  onTryVariation,
+  boardSize
 }) => {
   const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isGraphOpen, setIsGraphOpen] = useState(false);
   const scrollRef = useRef<HTMLDivElement>(null);
 
   // Sort history by moveNumber to ensure order is correct
@@ -32,6 +87,16 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
     return [...history].sort((a, b) => a.moveNumber - b.moveNumber);
   }, [history]);
 
+  // History rows plus the branch points of the game tree that have no analysis item
+  const listRows = React.useMemo(() => {
+    const itemNumbers = new Set(sortedHistory.map(item => item.moveNumber));
+    const branchOnly = Object.keys(branchOptions).map(Number).filter(n => !itemNumbers.has(n));
+    return [
+      ...sortedHistory.map(item => ({ moveNumber: item.moveNumber, item })),
+      ...branchOnly.map(moveNumber => ({ moveNumber, item: null as AnalysisHistoryItem | null }))
+    ].sort((a, b) => a.moveNumber - b.moveNumber);
+  }, [sortedHistory, branchOptions]);
+
   // Determine which analysis to display
   const selectedItem = selectedMoveNumber 
     ? sortedHistory.find(h => h.moveNumber === selectedMoveNumber) 
@@ -97,11 +162,55 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
     }
   };
 
-  // Helper to format coordinates (convert 0-18 to A-T, 1-19)
-  const formatCoord = (c: {x: number, y: number}) => {
-    const letters = "ABCDEFGHJKLMNOPQRST";
-    return `${letters[c.x]}${19 - c.y}`;
-  };
+  const formatCoord = (c: {x: number, y: number}) => toHumanCoordinate(c, boardSize);
+
+  const renderCancelButton = (item: AnalysisHistoryItem) => onCancelAnalysis && (
+    <button
+      onClick={() => onCancelAnalysis(item.nodeId)}
+      className="flex items-center gap-1 text-xs px-3 py-1.5 rounded-full border border-stone-200 text-stone-500 hover:text-red-600 hover:border-red-200 hover:bg-red-50 transition-colors"
+    >
+      <X className="w-3 h-3" />
+      取消分析
+    </button>
+  );
+
+  // Other moves played from the same position. A branch point without its own row in the list
+  // (a pass, a move with no analysis item) gets the chips with its move number.
+  const renderBranches = (branches: BranchOption[], moveNumber?: number) => (
+    <div className="flex flex-wrap items-center gap-1 pl-11 pb-1">
+      <GitBranch size={10} className="text-stone-400" />
+      {moveNumber !== undefined && <span className="text-[10px] font-mono text-stone-400">第{moveNumber}手</span>}
+      {branches.map(branch => (
+        <button
+          key={branch.nodeId}
+          onClick={() => onBranchSelect && onBranchSelect(branch.nodeId)}
+          disabled={branch.isActive}
+          className={`px-1.5 py-0.5 rounded text-[10px] font-mono border transition-all ${
+            branch.isActive
+              ? 'border-accent-gold bg-white text-ink'
+              : 'border-stone-200 text-stone-500 hover:border-stone-300 hover:bg-white'
+          }`}
+        >
+          {branch.player === PlayerColor.Black ? '黑' : '白'}{branch.coordinate ? formatCoord(branch.coordinate) : '停'}
+        </button>
+      ))}
+    </div>
+  );
+
+  // Comment carried over from an imported SGF record
+  const renderRecordNotes = (item: AnalysisHistoryItem) => (
+    <>
+      {item.comment && (
+        <div className="px-6 py-4">
+          <div className="flex items-center gap-2 mb-3">
+            <MessageSquare className="w-4 h-4 text-stone-400" />
+            <span className="text-xs font-bold uppercase tracking-wider text-stone-500">棋谱评注</span>
+          </div>
+          <p className="text-sm text-stone-600 leading-relaxed font-serif whitespace-pre-wrap">{item.comment}</p>
+        </div>
+      )}
+    </>
+  );
 
   return (
     <div className="flex flex-col h-full bg-[#fcfbf9] border-l border-stone-200/80 w-full md:w-96 lg:w-[28rem] shadow-xl z-20 shrink-0 transition-all duration-300">
@@ -168,7 +277,36 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
         )}
 
         {/* Analysis Content */}
-        {activeItem && activeItem.isLoading ? (
+        {activeItem && activeItem.isLoading && activeItem.partialAnalysis?.detailedAnalysis ? (
+           // Streaming: show the fields received so far
+           <div className="animate-fade-in pb-10">
+              <div className="p-6 pb-2 bg-gradient-to-b from-white to-[#fcfbf9]">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-xs font-bold text-stone-400 tracking-[0.2em] uppercase">
+                     {activeItem.player === PlayerColor.Black ? "Black Move" : "White Move"} • {formatCoord(activeItem.coordinate)}
+                  </span>
+                  {renderCancelButton(activeItem)}
+                </div>
+                {activeItem.partialAnalysis.evaluation && (
+                  <h3 className="text-4xl font-display font-bold mb-1 text-stone-800">{activeItem.partialAnalysis.evaluation}</h3>
+                )}
+                {activeItem.partialAnalysis.title && (
+                  <p className="text-lg text-accent-gold font-serif font-bold tracking-wide italic mb-4">"{activeItem.partialAnalysis.title}"</p>
+                )}
+              </div>
+              <div className="px-6 py-4">
+                 <div className="flex items-center gap-2 mb-3">
+                   <BookOpen className="w-4 h-4 text-stone-400" />
+                   <span className="text-xs font-bold uppercase tracking-wider text-stone-500">局势解析</span>
+                   <div className="w-3 h-3 rounded-full border border-stone-300 border-t-accent-gold animate-spin" />
+                 </div>
+                 <p className="text-[15px] text-stone-700 leading-7 text-justify font-serif border-l-2 border-accent-gold pl-4 bg-stone-50/50 py-2 rounded-r-lg">
+                   {activeItem.partialAnalysis.detailedAnalysis}
+                   <span className="inline-block w-1.5 h-4 ml-0.5 align-middle bg-accent-gold animate-pulse" />
+                 </p>
+              </div>
+           </div>
+        ) : activeItem && activeItem.isLoading ? (
            <div className="flex flex-col items-center justify-center h-full pb-20 space-y-6 animate-in fade-in duration-500">
               <div className="relative">
                 <div className="w-16 h-16 rounded-full border-4 border-stone-100 border-t-accent-gold animate-spin"></div>
@@ -180,15 +318,68 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
                  <p className="text-sm font-serif text-stone-600 font-medium tracking-wide">AI 正在深度推演局势...</p>
                  <p className="text-xs text-stone-400">分析第 {activeItem.moveNumber} 手的变化</p>
               </div>
+              {renderCancelButton(activeItem)}
+           </div>
+        ) : activeItem && activeItem.isQueued ? (
+           // Requested while offline - sent automatically once back online
+           <div className="flex flex-col items-center justify-center h-full pb-20 space-y-6 animate-in fade-in duration-500">
+              <div className="w-16 h-16 rounded-full bg-amber-50 flex items-center justify-center">
+                <WifiOff className="w-7 h-7 text-amber-400" />
+              </div>
+              <div className="text-center space-y-2 px-8">
+                 <p className="text-sm font-serif text-stone-600 font-medium tracking-wide">离线，联网后自动分析</p>
+                 <p className="text-xs text-stone-400">第 {activeItem.moveNumber} 手已加入分析队列</p>
+              </div>
+           </div>
+        ) : activeItem && activeItem.isInvalid ? (
+           // The reply did not pass validation, even after asking the model to fix it
+           <div className="flex flex-col items-center justify-center h-full pb-20 space-y-6 animate-in fade-in duration-500">
+              <div className="w-16 h-16 rounded-full bg-amber-50 flex items-center justify-center">
+                <AlertTriangle className="w-7 h-7 text-amber-400" />
+              </div>
+              <div className="text-center space-y-3 px-8">
+                 <p className="text-sm font-serif text-stone-600 font-medium tracking-wide">AI 回复格式无效，已请求修正仍未通过校验</p>
+                 {activeItem.validationErrors && activeItem.validationErrors.length > 0 && (
+                   <ul className="text-left text-[11px] text-stone-400 font-mono space-y-1 max-h-32 overflow-y-auto">
+                     {activeItem.validationErrors.map((error, i) => <li key={i}>• {error}</li>)}
+                   </ul>
+                 )}
+                 <button
+                   onClick={() => onAnalyze && onAnalyze(activeItem.moveNumber)}
+                   disabled={isLoading}
+                   className="px-6 py-2 bg-stone-800 text-white text-xs font-bold rounded-full shadow-lg hover:bg-black transition-all active:scale-95 disabled:opacity-50"
+                 >
+                   重试分析
+                 </button>
+              </div>
+           </div>
+        ) : analysis && activeItem && activeItem.isUnanalyzed ? (
+           // Imported move - show the record's notes and offer an analysis
+           <div className="animate-fade-in pb-10">
+              <div className="p-6 pb-2">
+                <span className="text-xs font-bold text-stone-400 tracking-[0.2em] uppercase">
+                   {activeItem.player === PlayerColor.Black ? "Black Move" : "White Move"} • {formatCoord(activeItem.coordinate)}
+                </span>
+              </div>
+              {renderRecordNotes(activeItem)}
+              <div className="flex justify-center px-6 py-4">
+                 <button
+                   onClick={() => onAnalyze && onAnalyze(activeItem.moveNumber)}
+                   disabled={isLoading}
+                   className="px-6 py-2 bg-stone-800 text-white text-xs font-bold rounded-full shadow-lg hover:bg-black transition-all active:scale-95 disabled:opacity-50"
+                 >
+                   AI 分析此手
+                 </button>
+              </div>
            </div>
-        ) : analysis && activeItem && analysis.title === '分析失败' ? (
+        ) : activeItem && activeItem.isFailed ? (
            // Analysis failed - show retry button
            <div className="flex flex-col items-center justify-center h-full pb-20 space-y-6 animate-in fade-in duration-500">
               <div className="w-16 h-16 rounded-full bg-red-50 flex items-center justify-center">
                 <Brain className="w-8 h-8 text-red-300" />
               </div>
               <div className="text-center space-y-3 px-8">
-                 <p className="text-sm font-serif text-stone-600 font-medium tracking-wide">{analysis.detailedAnalysis}</p>
+                 <p className="text-sm font-serif text-stone-600 font-medium tracking-wide">{activeItem.failureReason || '分析失败，请重试'}</p>
                  <button
                    onClick={() => onAnalyze && onAnalyze(activeItem.moveNumber)}
                    disabled={isLoading}
@@ -208,16 +399,13 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
                    {activeItem.player === PlayerColor.Black ? "Black Move" : "White Move"} • {formatCoord(activeItem.coordinate)}
                 </span>
                 <div className="flex items-center gap-1.5">
-                  <span className={`w-2 h-2 rounded-full ${analysis.score >= 80 ? 'bg-emerald-500' : 'bg-amber-500'}`}></span>
+                  <span className={`w-2 h-2 rounded-full ${getGrade(analysis.evaluation).dotClass}`}></span>
                   <span className="text-sm font-mono font-bold text-stone-600">{analysis.score}/100</span>
                 </div>
               </div>
               
-              <h3 className={`text-4xl font-display font-bold mb-1 ${
-                  analysis.evaluation === '神之一手' || analysis.evaluation === '好棋' ? 'text-emerald-800' :
-                  analysis.evaluation === '败着' || analysis.evaluation === '恶手' ? 'text-red-800' :
-                  'text-stone-800'
-                }`}>
+              <h3 className={`text-4xl font-display font-bold mb-1 flex items-center gap-3 ${getGrade(analysis.evaluation).textClass}`}>
+                {React.createElement(GRADE_ICONS[getGrade(analysis.evaluation).key], { className: 'w-7 h-7 opacity-70' })}
                 {analysis.evaluation}
               </h3>
               <p className="text-lg text-accent-gold font-serif font-bold tracking-wide italic mb-4">
@@ -247,6 +435,26 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
                     </div>
                  </div>
               </div>
+
+              {/* Engine statistics (GTP provider) */}
+              {analysis.engine && (
+                 <div className="bg-white p-3 rounded border border-stone-100 shadow-sm space-y-2">
+                    <div className="flex justify-between text-[10px] text-stone-400 uppercase">
+                       <span>黑 {(analysis.engine.winRate * 100).toFixed(1)}%</span>
+                       <span>引擎胜率 · {analysis.engine.visits} 次模拟</span>
+                       <span>白 {((1 - analysis.engine.winRate) * 100).toFixed(1)}%</span>
+                    </div>
+                    <div className="h-2 w-full bg-white border border-stone-300 rounded-full overflow-hidden">
+                       <div
+                         className="h-full bg-stone-800 transition-all duration-700 ease-out"
+                         style={{ width: `${analysis.engine.winRate * 100}%` }}
+                       />
+                    </div>
+                    <p className="text-xs font-semibold text-ink text-center">
+                       {analysis.engine.scoreLead >= 0 ? '黑' : '白'}领先 {Math.abs(analysis.engine.scoreLead).toFixed(1)} 目
+                    </p>
+                 </div>
+              )}
             </div>
 
             <div className="h-px w-full bg-gradient-to-r from-transparent via-stone-200 to-transparent my-2"></div>
@@ -262,6 +470,8 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
                </p>
             </div>
 
+            {renderRecordNotes(activeItem)}
+
             {/* 3. Strategic Context & Joseki */}
             <div className="px-6 py-4 space-y-4">
                {/* Strategy */}
@@ -296,11 +506,25 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
                  </div>
                  
                  <div className="space-y-3">
-                   {analysis.variations.map((v, i) => (
-                     <div key={i} className="group bg-white p-3 rounded-lg border border-stone-100 shadow-sm hover:shadow-md hover:border-accent-gold/30 transition-all cursor-default">
-                        <div className="flex justify-between items-center mb-1">
-                          <span className="text-xs font-bold text-accent-gold">推荐 {i+1}</span>
-                          <span className="text-xs font-mono text-stone-400">({formatCoord(v.move)})</span>
+                   {analysis.variations.map((v, i) => {
+                     const isPreviewed = variationPreview?.index === i;
+                     return (
+                     <div
+                       key={i}
+                       onClick={() => onPreviewVariation?.(activeItem.nodeId, isPreviewed ? null : i)}
+                       onMouseEnter={() => onHoverVariation?.(activeItem.nodeId, i)}
+                       onMouseLeave={() => onHoverVariation?.(activeItem.nodeId, null)}
+                       className={`group bg-white p-3 rounded-lg border shadow-sm hover:shadow-md transition-all ${onPreviewVariation ? 'cursor-pointer' : 'cursor-default'} ${
+                         isPreviewed ? 'border-accent-gold ring-1 ring-accent-gold/40' : 'border-stone-100 hover:border-accent-gold/30'
+                       }`}
+                       title={onPreviewVariation ? (isPreviewed ? '收起棋盘演示' : '在棋盘上演示') : undefined}
+                     >
+                        <div className="flex justify-between items-center mb-1 gap-2">
+                          <span className="text-xs font-bold text-accent-gold flex items-center gap-1 shrink-0">
+                            推荐 {i+1}
+                            {isPreviewed && <Eye size={12} />}
+                          </span>
+                          <span className="text-xs font-mono text-stone-400 truncate">({formatVariation(v, boardSize)})</span>
                         </div>
                         <p className="text-sm text-stone-700 mb-2 font-medium">{v.explanation}</p>
                         <div className="flex items-center gap-2">
@@ -309,8 +533,43 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
                            </div>
                            <span className="text-[10px] text-emerald-600 font-bold">{v.score}分</span>
                         </div>
+
+                        {/* Stepping through the continuation, then trying it on the board */}
+                        {isPreviewed && variationPreview && (
+                          <div className="flex items-center justify-between mt-3 pt-2 border-t border-stone-100" onClick={e => e.stopPropagation()}>
+                            <div className="flex items-center gap-1">
+                              <button
+                                onClick={() => onStepVariation?.(-1)}
+                                disabled={variationPreview.step <= 1}
+                                className="p-1 rounded-full text-stone-500 hover:text-stone-800 hover:bg-stone-100 disabled:opacity-30 transition-all"
+                                title="上一手"
+                              >
+                                <ChevronLeft size={14} />
+                              </button>
+                              <span className="text-[10px] font-mono text-stone-500 w-10 text-center">{variationPreview.step} / {variationPreview.total}</span>
+                              <button
+                                onClick={() => onStepVariation?.(1)}
+                                disabled={variationPreview.step >= variationPreview.total}
+                                className="p-1 rounded-full text-stone-500 hover:text-stone-800 hover:bg-stone-100 disabled:opacity-30 transition-all"
+                                title="下一手"
+                              >
+                                <ChevronRight size={14} />
+                              </button>
+                            </div>
+                            {onTryVariation && (
+                              <button
+                                onClick={onTryVariation}
+                                className="flex items-center gap-1 px-2.5 py-1 text-[11px] font-bold text-accent-gold border border-accent-gold/40 rounded-full hover:bg-accent-gold/10 transition-all"
+                                title="从此局面开出新分支，摆上演示的棋子"
+                              >
+                                <GitBranch size={12} /> 试下
+                              </button>
+                            )}
+                          </div>
+                        )}
                      </div>
-                   ))}
+                     );
+                   })}
                  </div>
               </div>
             )}
@@ -319,6 +578,43 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
         ))}
       </div>
 
+      {/* Game Graph */}
+      {graph && isGraphOpen && (
+        <div className="border-t border-stone-200 bg-white">
+          <GameGraph points={graph} selectedMoveNumber={currentMoveNumber} onSelect={onMoveSelect} />
+        </div>
+      )}
+
+      {/* Full Review Progress */}
+      {review && (
+        <div className="border-t border-stone-200 bg-stone-50 px-6 py-3 flex items-center gap-3">
+          <ListChecks size={16} className="text-accent-gold shrink-0" />
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center justify-between text-xs text-stone-600 mb-1">
+              <span className="font-bold">{review.isPaused ? '复盘已暂停' : '全盘复盘中...'}</span>
+              <span className="font-mono">{review.done} / {review.total}</span>
+            </div>
+            <div className="h-1.5 bg-stone-200 rounded-full overflow-hidden">
+              <div className="h-full bg-accent-gold transition-all duration-500" style={{ width: `${review.total ? (review.done / review.total) * 100 : 0}%` }} />
+            </div>
+          </div>
+          <button
+            onClick={onToggleReviewPause}
+            className="p-1.5 text-stone-500 hover:text-stone-800 hover:bg-stone-200 rounded-full transition-all"
+            title={review.isPaused ? '继续复盘' : '暂停复盘'}
+          >
+            {review.isPaused ? <Play size={14} /> : <Pause size={14} />}
+          </button>
+          <button
+            onClick={onStopReview}
+            className="p-1.5 text-stone-500 hover:text-red-600 hover:bg-red-50 rounded-full transition-all"
+            title="停止复盘"
+          >
+            <Square size={14} />
+          </button>
+        </div>
+      )}
+
       {/* History Footer (Collapsible) */}
       <div className={`border-t border-stone-200 bg-white transition-all duration-300 ease-in-out flex flex-col ${isHistoryOpen ? 'h-64' : 'h-12'}`}>
          
@@ -333,26 +629,69 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
               {isHistoryOpen ? <ChevronDown size={16} className="text-stone-400 ml-2" /> : <ChevronUp size={16} className="text-stone-400 ml-2" />}
             </button>
             
+            {graph && (
+              <button
+                 onClick={(e) => {
+                   e.stopPropagation();
+                   setIsGraphOpen(!isGraphOpen);
+                 }}
+                 className={`p-2 rounded-full transition-all ${isGraphOpen ? 'text-accent-gold bg-stone-100' : 'text-stone-400 hover:text-stone-800 hover:bg-stone-200'}`}
+                 title="形势图：目差与每手评分，点击跳转"
+              >
+                 <ChartLine size={16} />
+              </button>
+            )}
+
+            {onStartReview && !review && (
+              <button
+                 onClick={(e) => {
+                   e.stopPropagation();
+                   onStartReview();
+                 }}
+                 className="p-2 text-stone-400 hover:text-stone-800 hover:bg-stone-200 rounded-full transition-all"
+                 title="全盘复盘：分析所有未分析或分析失败的着法"
+              >
+                 <ListChecks size={16} />
+              </button>
+            )}
+
             <button
                onClick={(e) => {
                  e.stopPropagation();
-                 downloadGameRecord(history);
+                 downloadGameRecord(history, boardSize);
                }}
                className="p-2 text-stone-400 hover:text-stone-800 hover:bg-stone-200 rounded-full transition-all"
                title="下载棋谱及分析 (TXT)"
             >
                <Download size={16} />
             </button>
+
+            {onExportSGF && (
+              <button
+                 onClick={(e) => {
+                   e.stopPropagation();
+                   onExportSGF();
+                 }}
+                 className="p-2 text-stone-400 hover:text-stone-800 hover:bg-stone-200 rounded-full transition-all"
+                 title="下载棋谱及分析 (SGF)"
+              >
+                 <FileDown size={16} />
+              </button>
+            )}
          </div>
 
          {/* List */}
          {isHistoryOpen && (
            <div className="flex-1 overflow-y-auto bg-stone-50/50 p-2 space-y-1 custom-scrollbar">
-             {[...sortedHistory].reverse().map((item) => {
-               const isFailed = item.analysis.title === '分析失败';
+             {[...listRows].reverse().map(({ moveNumber, item }) => {
+               const branches = branchOptions[moveNumber];
+               if (!item) {
+                 return <React.Fragment key={`branches-${moveNumber}`}>{renderBranches(branches, moveNumber)}</React.Fragment>;
+               }
+               const isFailed = !item.isQueued && item.isFailed;
                return (
+               <React.Fragment key={item.nodeId}>
                <div
-                 key={item.moveNumber}
                  onClick={() => onMoveSelect(item.moveNumber)}
                  className={`
                     flex items-center justify-between p-3 rounded-md cursor-pointer border transition-all
@@ -375,7 +714,7 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
                      <div className="flex flex-col">
                         <span className="text-xs font-bold text-stone-700">{formatCoord(item.coordinate)}</span>
                         <span className="text-[10px] text-stone-400 font-serif truncate w-24">
-                          {item.isLoading ? "分析中..." : isFailed ? "分析失败" : item.analysis.title}
+                          {item.isLoading ? "分析中..." : item.isQueued ? "等待联网" : item.isInvalid ? "回复无效" : isFailed ? "分析失败" : item.isUnanalyzed ? (item.comment || "未分析") : item.analysis.title}
                         </span>
                      </div>
                   </div>
@@ -383,19 +722,24 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
                   <div className="text-right">
                      {item.isLoading ? (
                        <div className="w-4 h-4 rounded-full border border-stone-300 border-t-accent-gold animate-spin" />
+                     ) : item.isQueued ? (
+                       <WifiOff size={12} className="text-amber-400" />
+                     ) : item.isInvalid ? (
+                       <AlertTriangle size={12} className="text-amber-400" />
                      ) : isFailed ? (
                        <Brain size={12} className="text-red-400" />
+                     ) : item.isUnanalyzed ? (
+                       <span className="text-xs text-stone-300">—</span>
                      ) : (
-                       <span className={`
-                         text-xs font-bold px-1.5 py-0.5 rounded
-                         ${item.analysis.evaluation.includes('好') || item.analysis.evaluation.includes('神') ? 'text-emerald-700 bg-emerald-50' :
-                           item.analysis.evaluation.includes('败') || item.analysis.evaluation.includes('恶') ? 'text-red-700 bg-red-50' : 'text-stone-600 bg-stone-100'}
-                       `}>
+                       <span className={`text-xs font-bold px-1.5 py-0.5 rounded ${getGrade(item.analysis.evaluation).badgeClass}`}>
                          {item.analysis.evaluation}
                        </span>
                      )}
                   </div>
                </div>
+
+               {branches && renderBranches(branches)}
+               </React.Fragment>
              )})}
              {history.length === 0 && (
                <div className="text-center py-8 text-stone-400 text-xs font-serif italic">暂无落子记录</div>
@@ -1,28 +1,29 @@
 
 import React, { useMemo } from 'react';
-import { GameState, PlayerColor, Coordinate } from '../types';
+import { GameState, PlayerColor, Coordinate, GhostStone } from '../types';
 import Stone from './Stone';
 import { calculateInfluence } from '../services/goGame';
+import { getColumnLabels, getStarPoints } from '../services/coordinates';
 
 interface BoardProps {
   gameState: GameState;
   onIntersectClick: (x: number, y: number) => void;
   prevBoardState?: PlayerColor[][]; // To calculate visual delta
+  isLocked?: boolean; // Game over: no more stones can be placed
+  ownership?: PlayerColor[][] | null; // Counting overlay: owner of every point
+  deadStones?: Coordinate[]; // Counting: stones marked dead
+  ghostStones?: GhostStone[]; // Variation preview: stones of `gameState` drawn translucent and numbered
 }
 
-// Standard Go coordinates: Skip 'I'
-const COORD_X_LABELS = "ABCDEFGHJKLMNOPQRST".split('');
-const COORD_Y_LABELS = Array.from({length: 19}, (_, i) => 19 - i); // 19 down to 1
 
-const STAR_POINTS_19 = [
-  {x: 3, y: 3}, {x: 9, y: 3}, {x: 15, y: 3},
-  {x: 3, y: 9}, {x: 9, y: 9}, {x: 15, y: 9},
-  {x: 3, y: 15}, {x: 9, y: 15}, {x: 15, y: 15},
-];
-
-const Board: React.FC<BoardProps> = ({ gameState, onIntersectClick, prevBoardState }) => {
+const Board: React.FC<BoardProps> = ({ gameState, onIntersectClick, prevBoardState, isLocked, ownership, deadStones, ghostStones }) => {
   const { board, boardSize, lastMove } = gameState;
 
+  // Standard Go coordinates: Skip 'I'
+  const coordXLabels = useMemo(() => getColumnLabels(boardSize), [boardSize]);
+  const coordYLabels = useMemo(() => Array.from({length: boardSize}, (_, i) => boardSize - i), [boardSize]); // size down to 1
+  const starPoints = useMemo(() => getStarPoints(boardSize), [boardSize]);
+
   // Calculate Influence Delta for visualization
   const influenceDelta = useMemo(() => {
     if (!prevBoardState) return null;
@@ -42,9 +43,15 @@ const Board: React.FC<BoardProps> = ({ gameState, onIntersectClick, prevBoardSta
     const cells = [];
     for (let y = 0; y < boardSize; y++) {
       for (let x = 0; x < boardSize; x++) {
-        const isStarPoint = STAR_POINTS_19.some(p => p.x === x && p.y === y);
+        const isStarPoint = starPoints.some(p => p.x === x && p.y === y);
         const stone = board[y][x];
         const isLast = lastMove?.x === x && lastMove?.y === y;
+        const isDead = !!deadStones?.some(p => p.x === x && p.y === y);
+        // A point played twice in a variation (after a capture) shows its latest stone
+        const ghost = ghostStones?.filter(g => g.coordinate.x === x && g.coordinate.y === y).pop();
+        const owner = ownership ? ownership[y][x] : PlayerColor.Empty;
+        // Territory marker on empty points and on dead stones
+        const showOwner = owner !== PlayerColor.Empty && (stone === PlayerColor.Empty || isDead);
 
         // Influence Visualization
         const deltaVal = influenceDelta ? influenceDelta[y][x] : 0;
@@ -83,8 +90,8 @@ const Board: React.FC<BoardProps> = ({ gameState, onIntersectClick, prevBoardSta
         cells.push(
           <div 
             key={`${x}-${y}`} 
-            className="relative w-full h-full cursor-pointer flex items-center justify-center group"
-            onClick={() => onIntersectClick(x, y)}
+            className={`relative w-full h-full flex items-center justify-center group ${isLocked ? 'cursor-default' : 'cursor-pointer'}`}
+            onClick={() => !isLocked && onIntersectClick(x, y)}
           >
             {/* Visual Delta Overlay */}
             {deltaColor && stone === PlayerColor.Empty && (
@@ -103,12 +110,19 @@ const Board: React.FC<BoardProps> = ({ gameState, onIntersectClick, prevBoardSta
             )}
 
             {/* Hover Target / Interaction Area */}
-            {stone === PlayerColor.Empty && (
+            {stone === PlayerColor.Empty && !isLocked && (
                <div className="absolute w-8 h-8 rounded-full bg-stone-900/0 group-hover:bg-stone-900/10 transition-colors z-10 pointer-events-none" />
             )}
 
             {/* Stone */}
-            <Stone color={stone} isLastMove={isLast} />
+            <Stone color={stone} isLastMove={isLast && !ghostStones?.length} isDead={isDead} isGhost={!!ghost} number={ghost?.number} />
+
+            {/* Ownership Marker (Counting) */}
+            {showOwner && (
+              <div className={`absolute w-[35%] h-[35%] z-30 pointer-events-none top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 shadow-sm ${
+                owner === PlayerColor.Black ? 'bg-stone-900' : 'bg-white border border-stone-400'
+              }`} />
+            )}
           </div>
         );
       }
@@ -134,28 +148,28 @@ const Board: React.FC<BoardProps> = ({ gameState, onIntersectClick, prevBoardSta
       <div className="absolute inset-0 z-10 pointer-events-none">
         {/* Top Coordinates */}
         <div className="absolute top-0 left-[3.5%] right-[3.5%] h-[3.5%] flex items-center">
-           {COORD_X_LABELS.map(l => (
+           {coordXLabels.map(l => (
              <div key={`t-${l}`} className="flex-1 text-center text-[10px] sm:text-xs font-serif font-bold text-stone-800/70">{l}</div>
            ))}
         </div>
 
         {/* Bottom Coordinates */}
         <div className="absolute bottom-0 left-[3.5%] right-[3.5%] h-[3.5%] flex items-center">
-           {COORD_X_LABELS.map(l => (
+           {coordXLabels.map(l => (
              <div key={`b-${l}`} className="flex-1 text-center text-[10px] sm:text-xs font-serif font-bold text-stone-800/70">{l}</div>
            ))}
         </div>
 
         {/* Left Coordinates */}
         <div className="absolute left-0 top-[3.5%] bottom-[3.5%] w-[3.5%] flex flex-col justify-center">
-           {COORD_Y_LABELS.map(l => (
+           {coordYLabels.map(l => (
              <div key={`l-${l}`} className="flex-1 flex items-center justify-center text-[10px] sm:text-xs font-serif font-bold text-stone-800/70">{l}</div>
            ))}
         </div>
 
         {/* Right Coordinates */}
         <div className="absolute right-0 top-[3.5%] bottom-[3.5%] w-[3.5%] flex flex-col justify-center">
-           {COORD_Y_LABELS.map(l => (
+           {coordYLabels.map(l => (
              <div key={`r-${l}`} className="flex-1 flex items-center justify-center text-[10px] sm:text-xs font-serif font-bold text-stone-800/70">{l}</div>
            ))}
         </div>
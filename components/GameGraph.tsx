@@ -0,0 +1,141 @@
+
+import React, { useState, useId } from 'react';
+import { GraphPoint, PlayerColor } from '../types';
+import { getGradeForScore } from '../services/evaluationGrades';
+import { findTurningPoints } from '../services/gameGraph';
+
+interface GameGraphProps {
+  points: GraphPoint[]; // Root first, see buildGameGraph()
+  selectedMoveNumber: number; // Position shown on the board
+  onSelect: (moveNumber: number) => void;
+}
+
+// Chart coordinates (the SVG stretches to the panel width)
+const WIDTH = 300;
+const HEIGHT = 80;
+const MID = HEIGHT / 2;
+const MIN_RANGE = 10; // Points: small leads should not fill the whole height
+
+const formatLead = (lead: number) => lead === 0 ? '持平' : `${lead > 0 ? 'B' : 'W'}+${Math.abs(lead).toFixed(1)}`;
+
+const GameGraph: React.FC<GameGraphProps> = ({ points, selectedMoveNumber, onSelect }) => {
+  const [hovered, setHovered] = useState<number | null>(null);
+  const clipId = useId();
+
+  const turningPoints = React.useMemo(() => findTurningPoints(points), [points]);
+
+  if (points.length < 2) {
+    return <div className="px-6 py-4 text-xs text-stone-400 text-center">落子后即可查看形势图</div>;
+  }
+
+  const range = Math.max(MIN_RANGE, ...points.map(p => Math.abs(p.scoreLead)));
+  const x = (moveNumber: number) => (moveNumber / (points.length - 1)) * WIDTH;
+  const y = (lead: number) => MID - (lead / range) * (MID - 4);
+  const columnWidth = WIDTH / (points.length - 1);
+
+  const line = points.map(p => `${x(p.moveNumber).toFixed(1)},${y(p.scoreLead).toFixed(1)}`).join(' L ');
+  const area = `M 0,${MID} L ${line} L ${WIDTH},${MID} Z`;
+
+  const shown = points[hovered ?? selectedMoveNumber] || points[points.length - 1];
+  const grade = shown.quality !== null ? getGradeForScore(shown.quality) : null;
+
+  return (
+    <div className="px-6 py-3">
+      {/* Readout of the hovered (or shown) position */}
+      <div className="flex items-center justify-between text-[10px] text-stone-500 mb-1 h-4">
+        <span className="font-mono">
+          {shown.moveNumber === 0 ? '开局' : `第 ${shown.moveNumber} 手 · ${shown.player === PlayerColor.Black ? '黑' : '白'}`}
+        </span>
+        <span className="flex items-center gap-2">
+          <span className="font-mono font-bold text-stone-700" title={shown.isEngineLead ? '引擎目数' : '估算目数'}>
+            {formatLead(shown.scoreLead)}{shown.isEngineLead ? '' : ' (估)'}
+          </span>
+          {grade && <span className={grade.textClass}>{grade.label} {shown.quality}分</span>}
+          {shown.territoryChange !== null && shown.territoryChange !== 0 && (
+            <span className="font-mono">{shown.territoryChange > 0 ? '+' : ''}{shown.territoryChange} 目</span>
+          )}
+        </span>
+      </div>
+
+      {/* Score lead: above the middle Black leads, below White */}
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        preserveAspectRatio="none"
+        className="w-full h-20 bg-stone-50 rounded border border-stone-100 cursor-pointer"
+        onMouseLeave={() => setHovered(null)}
+      >
+        <defs>
+          <clipPath id={`${clipId}-black`}><rect x="0" y="0" width={WIDTH} height={MID} /></clipPath>
+          <clipPath id={`${clipId}-white`}><rect x="0" y={MID} width={WIDTH} height={MID} /></clipPath>
+        </defs>
+        <path d={area} fill="#292524" fillOpacity={0.25} clipPath={`url(#${clipId}-black)`} />
+        <path d={area} fill="#d6d3d1" fillOpacity={0.6} clipPath={`url(#${clipId}-white)`} />
+        <line x1="0" y1={MID} x2={WIDTH} y2={MID} stroke="#a8a29e" strokeWidth={0.5} strokeDasharray="2 2" vectorEffect="non-scaling-stroke" />
+        <path d={`M ${line}`} fill="none" stroke="#44403c" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+
+        {/* Turning points */}
+        {turningPoints.map(p => (
+          <line
+            key={p.nodeId}
+            x1={x(p.moveNumber)} y1="0" x2={x(p.moveNumber)} y2={HEIGHT}
+            stroke="#dc2626" strokeOpacity={0.5} strokeWidth={1} vectorEffect="non-scaling-stroke"
+          />
+        ))}
+
+        {/* Shown position */}
+        <line
+          x1={x(selectedMoveNumber)} y1="0" x2={x(selectedMoveNumber)} y2={HEIGHT}
+          stroke="#c5a059" strokeWidth={1.5} vectorEffect="non-scaling-stroke"
+        />
+
+        {/* One click target per move */}
+        {points.map(p => (
+          <rect
+            key={p.nodeId}
+            x={x(p.moveNumber) - columnWidth / 2} y="0" width={columnWidth} height={HEIGHT}
+            fill="transparent"
+            onMouseEnter={() => setHovered(p.moveNumber)}
+            onClick={() => onSelect(p.moveNumber)}
+          />
+        ))}
+      </svg>
+
+      {/* Move quality: one bar per analyzed move, colored by grade */}
+      <div className="flex items-end h-5 mt-1 gap-px">
+        {points.slice(1).map(p => (
+          <div
+            key={p.nodeId}
+            onClick={() => onSelect(p.moveNumber)}
+            onMouseEnter={() => setHovered(p.moveNumber)}
+            onMouseLeave={() => setHovered(null)}
+            className={`flex-1 min-w-0 rounded-t-sm cursor-pointer ${p.quality !== null ? getGradeForScore(p.quality).dotClass : 'bg-stone-200'}`}
+            style={{ height: p.quality !== null ? `${Math.max(15, p.quality)}%` : '15%' }}
+          />
+        ))}
+      </div>
+
+      {turningPoints.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1.5 mt-2">
+          <span className="text-[10px] font-bold text-red-700">转折点</span>
+          {turningPoints.map(p => {
+            const swing = p.scoreLead - points[p.moveNumber - 1].scoreLead;
+            return (
+              <button
+                key={p.nodeId}
+                onClick={() => onSelect(p.moveNumber)}
+                className={`px-2 py-0.5 text-[10px] font-mono rounded-full border transition-all ${
+                  p.moveNumber === selectedMoveNumber ? 'bg-red-50 border-red-300 text-red-700' : 'border-stone-200 text-stone-600 hover:border-red-200 hover:bg-red-50'
+                }`}
+                title={`${formatLead(points[p.moveNumber - 1].scoreLead)} → ${formatLead(p.scoreLead)}`}
+              >
+                第{p.moveNumber}手 {swing > 0 ? '黑' : '白'}+{Math.abs(swing).toFixed(1)}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GameGraph;
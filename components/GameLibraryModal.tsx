@@ -0,0 +1,145 @@
+
+import React, { useState, useEffect } from 'react';
+import { SavedGame, GameMode } from '../types';
+import { listGames, deleteGame } from '../services/storageService';
+import { formatResult } from '../services/goGame';
+import { X, Library, FolderOpen, Trash2, Loader2 } from 'lucide-react';
+
+interface GameLibraryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  currentGameId: string;
+  onOpen: (game: SavedGame) => void;
+}
+
+const MODE_LABELS: Record<GameMode, string> = {
+  vsAI: '人机对弈',
+  aiVsAi: 'AI 对弈',
+  hotseat: '双人对弈',
+};
+
+const GameLibraryModal: React.FC<GameLibraryModalProps> = ({ isOpen, onClose, currentGameId, onOpen }) => {
+  const [games, setGames] = useState<SavedGame[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setIsLoading(true);
+    setError(null);
+    listGames()
+      .then(setGames)
+      .catch(err => {
+        console.error("Failed to list saved games", err);
+        setError('无法读取本地棋谱库');
+      })
+      .finally(() => setIsLoading(false));
+  }, [isOpen]);
+
+  const handleDelete = async (game: SavedGame) => {
+    if (!window.confirm("确定要删除这盘棋吗？")) return;
+    setError(null);
+    try {
+      await deleteGame(game.id);
+      setGames(prev => prev.filter(g => g.id !== game.id));
+    } catch (err) {
+      console.error("Failed to delete saved game", err);
+      setError('无法删除这盘棋');
+    }
+  };
+
+  const handleOpen = (game: SavedGame) => {
+    onOpen(game);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white rounded-lg shadow-2xl w-full max-w-lg border border-stone-200 overflow-hidden transform transition-all scale-100">
+
+        {/* Header */}
+        <div className="bg-[#fcfbf9] px-6 py-4 border-b border-stone-100 flex justify-between items-center">
+          <div className="flex items-center gap-2">
+            <Library className="text-stone-700" size={20} />
+            <h3 className="font-display font-bold text-lg text-ink">棋谱库</h3>
+          </div>
+          <button onClick={onClose} className="text-stone-400 hover:text-stone-700 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="p-4 space-y-2 overflow-y-auto max-h-[70vh]">
+          {isLoading && (
+            <div className="flex justify-center py-8 text-stone-400">
+              <Loader2 size={20} className="animate-spin" />
+            </div>
+          )}
+
+          {error && (
+            <div className="text-center py-8 text-red-500 text-xs">{error}</div>
+          )}
+
+          {!isLoading && !error && games.length === 0 && (
+            <div className="text-center py-8 text-stone-400 text-xs font-serif italic">暂无保存的对局</div>
+          )}
+
+          {!isLoading && games.map(game => (
+            <div
+              key={game.id}
+              className={`
+                flex items-center justify-between p-3 rounded-md border transition-all
+                ${game.id === currentGameId
+                  ? 'border-accent-gold bg-stone-50 shadow-sm'
+                  : 'border-stone-200 hover:border-stone-300 hover:bg-stone-50/50'}
+              `}
+            >
+              <div className="flex flex-col gap-0.5 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-bold text-stone-800">
+                    {new Date(game.updatedAt).toLocaleString()}
+                  </span>
+                  {game.id === currentGameId && (
+                    <span className="text-[9px] bg-stone-100 px-1.5 py-0.5 rounded text-stone-500">当前</span>
+                  )}
+                </div>
+                <div className="flex flex-wrap items-center gap-x-2 text-[10px] text-stone-500">
+                  <span>{game.options.boardSize}路</span>
+                  <span>{MODE_LABELS[game.options.mode]}</span>
+                  <span>{game.moveCount} 手</span>
+                  <span className="uppercase">{game.provider}</span>
+                  <span className="font-mono font-bold text-stone-600">
+                    {game.result ? formatResult(game.result) : '进行中'}
+                  </span>
+                </div>
+              </div>
+
+              <div className="flex items-center gap-1 shrink-0">
+                <button
+                  onClick={() => handleOpen(game)}
+                  className="p-1.5 rounded-md text-stone-500 hover:text-ink hover:bg-stone-100 transition-all"
+                  title={game.result ? '打开复盘' : '继续对局'}
+                >
+                  <FolderOpen size={16} />
+                </button>
+                <button
+                  onClick={() => handleDelete(game)}
+                  disabled={game.id === currentGameId}
+                  className="p-1.5 rounded-md text-stone-400 hover:text-red-600 hover:bg-red-50 transition-all disabled:opacity-30 disabled:cursor-not-allowed"
+                  title="删除"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+      </div>
+    </div>
+  );
+};
+
+export default GameLibraryModal;
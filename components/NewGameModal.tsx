@@ -0,0 +1,293 @@
+
+import React, { useState, useEffect } from 'react';
+import { NewGameOptions, KoRule, GameMode, PlayerColor, AIProvider, AIConfig } from '../types';
+import { SUPPORTED_BOARD_SIZES } from '../services/coordinates';
+import { KOMI, HANDICAP_KOMI } from '../services/goGame';
+import { PROVIDERS } from './SettingsModal';
+import { loadApiKeys, loadProviderSettings } from '../services/storageService';
+import { X, Play, Grid3x3 } from 'lucide-react';
+
+interface NewGameModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  currentOptions: NewGameOptions;
+  onStart: (options: NewGameOptions) => void;
+}
+
+const BOARD_SIZE_LABELS: Record<number, string> = {
+  9: '入门 · 快速对局',
+  13: '进阶 · 中盘练习',
+  19: '标准 · 完整对局',
+};
+
+const HANDICAPS = [0, 2, 3, 4, 5, 6, 7, 8, 9];
+
+const GAME_MODES: { id: GameMode; name: string; description: string }[] = [
+  { id: 'vsAI', name: '人机对弈', description: '与 AI 对局' },
+  { id: 'aiVsAi', name: 'AI 对弈', description: '观战两个 AI 对局' },
+  { id: 'hotseat', name: '双人对弈', description: '同屏对局，AI 只做讲解' },
+];
+
+// Builds a player config from the keys and endpoints saved in the settings modal
+const loadAIConfig = (provider: AIProvider): AIConfig => {
+  return {
+    provider,
+    apiKey: loadApiKeys()[provider] || '',
+    modelName: provider === 'gemini' ? 'gemini-3-flash-preview' : undefined,
+    ...loadProviderSettings(provider)
+  };
+};
+
+const KO_RULES: { id: KoRule; name: string; description: string }[] = [
+  { id: 'simple', name: '普通劫', description: '禁止立即提回' },
+  { id: 'positional', name: '全局同形禁止', description: '不得重现任何已出现的局面' },
+  { id: 'situational', name: '情境同形禁止', description: '同一方行棋时不得重现局面' },
+];
+
+const NewGameModal: React.FC<NewGameModalProps> = ({ isOpen, onClose, currentOptions, onStart }) => {
+  const [boardSize, setBoardSize] = useState<number>(currentOptions.boardSize);
+  const [koRule, setKoRule] = useState<KoRule>(currentOptions.koRule);
+  const [handicap, setHandicap] = useState<number>(currentOptions.handicap);
+  const [komi, setKomi] = useState<number>(currentOptions.komi);
+  const [mode, setMode] = useState<GameMode>(currentOptions.mode);
+  const [humanColor, setHumanColor] = useState<PlayerColor>(currentOptions.humanColor);
+  const [blackProvider, setBlackProvider] = useState<AIProvider>(currentOptions.aiVsAiConfigs?.black.provider || 'gemini');
+  const [whiteProvider, setWhiteProvider] = useState<AIProvider>(currentOptions.aiVsAiConfigs?.white.provider || 'gemini');
+
+  useEffect(() => {
+    if (isOpen) {
+      setBoardSize(currentOptions.boardSize);
+      setKoRule(currentOptions.koRule);
+      setHandicap(currentOptions.handicap);
+      setKomi(currentOptions.komi);
+      setMode(currentOptions.mode);
+      setHumanColor(currentOptions.humanColor);
+      setBlackProvider(currentOptions.aiVsAiConfigs?.black.provider || 'gemini');
+      setWhiteProvider(currentOptions.aiVsAiConfigs?.white.provider || 'gemini');
+    }
+  }, [isOpen, currentOptions]);
+
+  const handleHandicapChange = (h: number) => {
+    setHandicap(h);
+    // Suggest the usual komi for the new setting; the user can still adjust it
+    setKomi(h > 0 ? HANDICAP_KOMI : KOMI);
+  };
+
+  const handleStart = () => {
+    onStart({
+      boardSize,
+      koRule,
+      handicap,
+      komi,
+      mode,
+      humanColor,
+      aiVsAiConfigs: mode === 'aiVsAi'
+        ? { black: loadAIConfig(blackProvider), white: loadAIConfig(whiteProvider) }
+        : undefined
+    });
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white rounded-lg shadow-2xl w-full max-w-md border border-stone-200 overflow-hidden transform transition-all scale-100">
+
+        {/* Header */}
+        <div className="bg-[#fcfbf9] px-6 py-4 border-b border-stone-100 flex justify-between items-center">
+          <div className="flex items-center gap-2">
+            <Grid3x3 className="text-stone-700" size={20} />
+            <h3 className="font-display font-bold text-lg text-ink">新对局</h3>
+          </div>
+          <button onClick={onClose} className="text-stone-400 hover:text-stone-700 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="p-6 space-y-6 overflow-y-auto max-h-[80vh]">
+
+          {/* Mode */}
+          <div className="space-y-3">
+            <label className="text-xs font-bold uppercase tracking-wider text-stone-500">对局模式</label>
+            <div className="grid grid-cols-3 gap-2">
+              {GAME_MODES.map(m => (
+                <button
+                  key={m.id}
+                  onClick={() => setMode(m.id)}
+                  className={`
+                    flex flex-col items-center p-3 rounded-md border transition-all
+                    ${mode === m.id
+                      ? 'border-accent-gold bg-stone-50 shadow-sm ring-1 ring-accent-gold/20'
+                      : 'border-stone-200 hover:border-stone-300 hover:bg-stone-50/50'}
+                  `}
+                >
+                  <span className="text-sm font-bold text-stone-800">{m.name}</span>
+                  <span className="text-[10px] text-stone-500">{m.description}</span>
+                </button>
+              ))}
+            </div>
+
+            {mode === 'vsAI' && (
+              <div className="grid grid-cols-2 gap-2">
+                {[PlayerColor.Black, PlayerColor.White].map(color => (
+                  <button
+                    key={color}
+                    onClick={() => setHumanColor(color)}
+                    className={`
+                      flex items-center justify-center gap-2 py-2 rounded-md border text-xs font-bold transition-all
+                      ${humanColor === color
+                        ? 'border-accent-gold bg-stone-50 text-ink shadow-sm ring-1 ring-accent-gold/20'
+                        : 'border-stone-200 text-stone-500 hover:border-stone-300 hover:bg-stone-50/50'}
+                    `}
+                  >
+                    <span className={`w-3 h-3 rounded-full border ${color === PlayerColor.Black ? 'bg-black border-black' : 'bg-white border-stone-300'}`}></span>
+                    {color === PlayerColor.Black ? '执黑' : '执白'}
+                  </button>
+                ))}
+              </div>
+            )}
+            {mode === 'aiVsAi' && (
+              <div className="grid grid-cols-2 gap-2">
+                {([
+                  [PlayerColor.Black, blackProvider, setBlackProvider],
+                  [PlayerColor.White, whiteProvider, setWhiteProvider],
+                ] as const).map(([color, value, setValue]) => (
+                  <div key={color} className="space-y-1">
+                    <span className="text-[10px] text-stone-500">{color === PlayerColor.Black ? '黑方' : '白方'}</span>
+                    <select
+                      value={value}
+                      onChange={(e) => setValue(e.target.value as AIProvider)}
+                      className="w-full px-2 py-1.5 bg-white rounded-md border border-stone-200 text-xs text-stone-700 focus:outline-none focus:border-accent-gold"
+                    >
+                      {PROVIDERS.map(p => (
+                        <option key={p.id} value={p.id}>{p.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Board Size */}
+          <div className="space-y-3">
+            <label className="text-xs font-bold uppercase tracking-wider text-stone-500">棋盘大小</label>
+            <div className="grid grid-cols-3 gap-2">
+              {SUPPORTED_BOARD_SIZES.map(size => (
+                <button
+                  key={size}
+                  onClick={() => setBoardSize(size)}
+                  className={`
+                    flex flex-col items-center p-3 rounded-md border transition-all
+                    ${boardSize === size
+                      ? 'border-accent-gold bg-stone-50 shadow-sm ring-1 ring-accent-gold/20'
+                      : 'border-stone-200 hover:border-stone-300 hover:bg-stone-50/50'}
+                  `}
+                >
+                  <span className="text-sm font-bold text-stone-800">{size} × {size}</span>
+                  <span className="text-[10px] text-stone-500">{BOARD_SIZE_LABELS[size]}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Handicap */}
+          <div className="space-y-3">
+            <label className="flex justify-between items-center text-xs font-bold uppercase tracking-wider text-stone-500">
+              <span>让子</span>
+              {handicap > 0 && <span className="text-[9px] bg-stone-100 px-1.5 py-0.5 rounded text-stone-400 font-normal normal-case">白方先行</span>}
+            </label>
+            <div className="grid grid-cols-9 gap-1">
+              {HANDICAPS.map(h => (
+                <button
+                  key={h}
+                  onClick={() => handleHandicapChange(h)}
+                  className={`
+                    py-1.5 rounded-md border text-xs font-bold transition-all
+                    ${handicap === h
+                      ? 'border-accent-gold bg-stone-50 text-ink shadow-sm ring-1 ring-accent-gold/20'
+                      : 'border-stone-200 text-stone-500 hover:border-stone-300 hover:bg-stone-50/50'}
+                  `}
+                >
+                  {h === 0 ? '无' : h}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Komi */}
+          <div className="space-y-3">
+            <label className="flex justify-between items-center text-xs font-bold uppercase tracking-wider text-stone-500">
+              <span>贴目</span>
+              <span className="font-mono text-stone-700 normal-case">
+                {komi < 0 ? `反贴 ${-komi} (黑方得)` : `${komi} (白方得)`}
+              </span>
+            </label>
+            <input
+              type="range"
+              min={-7.5}
+              max={7.5}
+              step={0.5}
+              value={komi}
+              onChange={(e) => setKomi(parseFloat(e.target.value))}
+              className="w-full accent-stone-800"
+            />
+            <div className="flex justify-between text-[9px] text-stone-400">
+              <span>反贴 7.5</span>
+              <span>0</span>
+              <span>7.5</span>
+            </div>
+          </div>
+
+          {/* Ko Rule */}
+          <div className="space-y-3">
+            <label className="text-xs font-bold uppercase tracking-wider text-stone-500">劫争规则</label>
+            <div className="grid grid-cols-1 gap-2">
+              {KO_RULES.map(rule => (
+                <button
+                  key={rule.id}
+                  onClick={() => setKoRule(rule.id)}
+                  className={`
+                    flex items-center p-2.5 rounded-md border text-left transition-all
+                    ${koRule === rule.id
+                      ? 'border-accent-gold/60 bg-white shadow-sm'
+                      : 'border-stone-100 hover:border-stone-200 bg-stone-50/30'}
+                  `}
+                >
+                  <div className={`w-2 h-2 rounded-full mr-3 ${koRule === rule.id ? 'bg-accent-gold' : 'bg-stone-200'}`}></div>
+                  <div>
+                    <div className="text-xs font-bold text-stone-700">{rule.name}</div>
+                    <div className="text-[9px] text-stone-400">{rule.description}</div>
+                  </div>
+                </button>
+              ))}
+            </div>
+          </div>
+
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 bg-stone-50 border-t border-stone-100 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-stone-600 hover:bg-stone-200/50 rounded-md transition-colors"
+          >
+            取消
+          </button>
+          <button
+            onClick={handleStart}
+            className="px-6 py-2 bg-stone-800 hover:bg-black text-white text-sm font-bold rounded-md shadow-lg shadow-stone-300/50 flex items-center gap-2 transition-all active:scale-95"
+          >
+            <Play size={16} />
+            开始对局
+          </button>
+        </div>
+
+      </div>
+    </div>
+  );
+};
+
+export default NewGameModal;
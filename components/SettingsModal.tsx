@@ -1,7 +1,10 @@
 
 import React, { useState, useEffect } from 'react';
 import { AIProvider, AIConfig } from '../types';
-import { X, Save, Key, Cpu, AlertCircle, Trash2, CheckCircle2, Loader2, RefreshCw } from 'lucide-react';
+import { X, Save, Key, Cpu, AlertCircle, Trash2, CheckCircle2, Loader2, RefreshCw, Link } from 'lucide-react';
+import { checkGTPBridge, DEFAULT_GTP_BRIDGE } from '../services/gtpService';
+import { getChatCompletionsURL } from '../services/geminiService';
+import { loadApiKeys, loadBaseURLs, loadProviderSettings, CUSTOM_PROVIDER_KEY } from '../services/storageService';
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -10,21 +13,61 @@ interface SettingsModalProps {
   onSave: (config: AIConfig) => void;
 }
 
-const PROVIDERS: { id: AIProvider; name: string; description: string }[] = [
+export const PROVIDERS: { id: AIProvider; name: string; description: string }[] = [
   { id: 'gemini', name: 'Google Gemini', description: 'Google 强大的生成式 AI' },
   { id: 'deepseek', name: 'DeepSeek', description: 'DeepSeek V3 (高性价比)' },
   { id: 'qwen', name: 'Qwen (通义千问)', description: 'Qwen-Plus/Max (综合能力强)' },
   { id: 'aihubmix', name: 'AIHubMix', description: 'Gemini-3-Flash (APIHubMix 代理)' },
+  { id: 'openai', name: 'OpenAI', description: 'GPT 系列 (结构化输出)' },
+  { id: 'anthropic', name: 'Anthropic', description: 'Claude 系列 (工具调用输出)' },
+  { id: 'local', name: '离线对手', description: '内置规则引擎 (无需 API Key，不提供分析)' },
+  { id: 'gtp', name: 'GTP 引擎', description: 'KataGo 等围棋引擎 (经本地桥接服务)' },
+  { id: 'custom', name: '自定义 (OpenAI 兼容)', description: 'Ollama / vLLM / LM Studio 等自建服务' },
 ];
 
+// "Name: value" per line
+const parseHeaders = (text: string): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  text.split('\n').forEach(line => {
+    const colon = line.indexOf(':');
+    if (colon > 0) headers[line.slice(0, colon).trim()] = line.slice(colon + 1).trim();
+  });
+  return headers;
+};
+
+const formatHeaders = (headers?: Record<string, string>) =>
+  Object.entries(headers || {}).map(([name, value]) => `${name}: ${value}`).join('\n');
+
 const GEMINI_MODELS = [
   { id: 'gemini-3-flash-preview', name: 'Gemini 3 Flash (最新预览版)', description: '最快且最新的预览模型' },
 ];
 
+const OPENAI_MODELS = [
+  { id: 'gpt-4.1-mini', name: 'GPT-4.1 mini', description: '速度快、成本低 (默认)' },
+  { id: 'gpt-4.1', name: 'GPT-4.1', description: '分析更细致' },
+  { id: 'gpt-4o', name: 'GPT-4o', description: '通用旗舰模型' },
+  { id: 'o4-mini', name: 'o4-mini', description: '推理模型 (较慢)' },
+];
+
+const ANTHROPIC_MODELS = [
+  { id: 'claude-sonnet-4-5', name: 'Claude Sonnet 4.5', description: '能力与速度均衡 (默认)' },
+  { id: 'claude-opus-4-1', name: 'Claude Opus 4.1', description: '最强推理，成本较高' },
+  { id: 'claude-haiku-4-5', name: 'Claude Haiku 4.5', description: '速度最快' },
+];
+
+// Providers with a visible model picker
+const MODEL_OPTIONS: Partial<Record<AIProvider, typeof GEMINI_MODELS>> = {
+  openai: OPENAI_MODELS,
+  anthropic: ANTHROPIC_MODELS,
+};
+
 const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, currentConfig, onSave }) => {
   const [provider, setProvider] = useState<AIProvider>(currentConfig.provider);
   const [apiKey, setApiKey] = useState<string>(currentConfig.apiKey);
   const [modelName, setModelName] = useState<string | undefined>(currentConfig.modelName);
+  const [baseURL, setBaseURL] = useState<string>(currentConfig.baseURL || '');
+  const [headersText, setHeadersText] = useState<string>('');
+  const [jsonMode, setJsonMode] = useState<boolean>(true);
   // Store separate keys for each provider in local state wrapper to improve UX
   const [keysMap, setKeysMap] = useState<Record<string, string>>({});
   const [isTesting, setIsTesting] = useState(false);
@@ -34,10 +77,9 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, currentC
   useEffect(() => {
     if (isOpen) {
       setProvider(currentConfig.provider);
-      setModelName(currentConfig.modelName || (currentConfig.provider === 'gemini' ? 'gemini-3-flash-preview' : undefined));
+      setModelName(currentConfig.modelName || (currentConfig.provider === 'gemini' ? 'gemini-3-flash-preview' : MODEL_OPTIONS[currentConfig.provider]?.[0].id));
       // Try to load saved keys map from localStorage
-      const savedKeys = localStorage.getItem('zenGo_apiKeys');
-      let parsed = savedKeys ? JSON.parse(savedKeys) : {};
+      const parsed = loadApiKeys();
       
       // Auto-fill AIHubMix key if provided by user and not already in storage
       if (!parsed.aihubmix) {
@@ -47,9 +89,18 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, currentC
 
       setKeysMap(parsed);
       setApiKey(parsed[currentConfig.provider] || currentConfig.apiKey);
+      loadEndpointForm(currentConfig.provider);
     }
   }, [isOpen, currentConfig]);
 
+  const loadEndpointForm = (p: AIProvider) => {
+    const settings = loadProviderSettings(p);
+    setBaseURL(settings.baseURL || (p === 'gtp' ? DEFAULT_GTP_BRIDGE : ''));
+    setHeadersText(formatHeaders(settings.headers));
+    setJsonMode(settings.jsonMode ?? true);
+    if (p === 'custom') setModelName(settings.modelName);
+  };
+
   const handleProviderChange = (p: AIProvider) => {
     // Save current input to map before switching (if not empty)
     if (apiKey.trim()) {
@@ -63,11 +114,14 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, currentC
     setApiKey(keysMap[p] || '');
     
     // Reset model if switching providers
-    if (p !== 'gemini') {
-        setModelName(undefined);
-    } else {
+    if (p === 'gemini') {
         setModelName(currentConfig.modelName || 'gemini-3-flash-preview');
+    } else if (MODEL_OPTIONS[p]) {
+        setModelName(p === currentConfig.provider && currentConfig.modelName ? currentConfig.modelName : MODEL_OPTIONS[p]![0].id);
+    } else {
+        setModelName(undefined);
     }
+    loadEndpointForm(p);
   };
 
   const handleClearKey = () => {
@@ -79,7 +133,23 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, currentC
   };
 
   const handleTestConnection = async () => {
-    if (!apiKey.trim()) {
+    if (provider === 'gtp') {
+      setIsTesting(true);
+      setTestResult(null);
+      try {
+        const name = await checkGTPBridge({ provider, apiKey: '', baseURL });
+        setTestResult('success');
+        setTestMessage(`连接成功！引擎: ${name}`);
+      } catch (error) {
+        setTestResult('error');
+        setTestMessage('无法连接桥接服务，请确认已运行 npm run gtp-bridge');
+      } finally {
+        setIsTesting(false);
+      }
+      return;
+    }
+
+    if (provider !== 'custom' && !apiKey.trim()) {
       setTestResult('error');
       setTestMessage('请先输入 API Key');
       return;
@@ -105,6 +175,34 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, currentC
         return;
       }
 
+      // Anthropic Messages API
+      if (provider === 'anthropic') {
+        const testModel = modelName || ANTHROPIC_MODELS[0].id;
+        const response = await fetch('https://api.anthropic.com/v1/messages', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'x-api-key': apiKey,
+            'anthropic-version': '2023-06-01',
+            'anthropic-dangerous-direct-browser-access': 'true'
+          },
+          body: JSON.stringify({
+            model: testModel,
+            messages: [{ role: 'user', content: 'Hi' }],
+            max_tokens: 5
+          })
+        });
+        if (response.ok) {
+          setTestResult('success');
+          setTestMessage(`连接成功！模型: ${testModel}`);
+        } else {
+          const errorData = await response.json().catch(() => ({}));
+          setTestResult('error');
+          setTestMessage(errorData.error?.message || `连接失败 (${response.status})`);
+        }
+        return;
+      }
+
       // OpenAI-compatible APIs
       const config: Record<string, { baseURL: string; model: string }> = {
         deepseek: {
@@ -118,6 +216,14 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, currentC
         aihubmix: {
           baseURL: 'https://api.aihubmix.com/v1/chat/completions',
           model: 'gemini-3-flash-preview-free'
+        },
+        openai: {
+          baseURL: 'https://api.openai.com/v1/chat/completions',
+          model: modelName || OPENAI_MODELS[0].id
+        },
+        custom: {
+          baseURL: getChatCompletionsURL(baseURL),
+          model: modelName || ''
         }
       };
 
@@ -126,12 +232,14 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, currentC
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${apiKey}`
+          ...(provider === 'custom' ? parseHeaders(headersText) : {}),
+          ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {})
         },
         body: JSON.stringify({
           model: conf.model,
           messages: [{ role: 'user', content: 'Hi' }],
-          max_tokens: 5
+          // OpenAI reasoning models only accept max_completion_tokens
+          ...(provider === 'openai' ? { max_completion_tokens: 16 } : { max_tokens: 5 })
         })
       });
 
@@ -159,13 +267,24 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, currentC
     }
     localStorage.setItem('zenGo_apiKeys', JSON.stringify(newMap));
 
+    // Endpoint settings
+    let endpoint: Partial<AIConfig> = {};
+    if (provider === 'gtp') {
+      endpoint = { baseURL };
+      localStorage.setItem('zenGo_baseURLs', JSON.stringify({ ...loadBaseURLs(), gtp: baseURL }));
+    } else if (provider === 'custom') {
+      endpoint = { baseURL, modelName, headers: parseHeaders(headersText), jsonMode };
+      localStorage.setItem(CUSTOM_PROVIDER_KEY, JSON.stringify(endpoint));
+    }
+
     // Force Gemini to use the specific flash preview model, ignoring any stale state
     const finalModelName = provider === 'gemini' ? 'gemini-3-flash-preview' : modelName;
 
     onSave({
       provider,
       apiKey,
-      modelName: finalModelName
+      modelName: finalModelName,
+      ...endpoint
     });
     onClose();
   };
@@ -252,11 +371,132 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, currentC
           )}
           */}
 
+          {/* Model Selection (OpenAI / Anthropic) */}
+          {MODEL_OPTIONS[provider] && (
+            <div className="space-y-3 animate-slide-down">
+              <label className="text-xs font-bold uppercase tracking-wider text-stone-500">选择模型</label>
+              <div className="grid grid-cols-1 gap-2">
+                {MODEL_OPTIONS[provider]!.map((m) => (
+                  <button
+                    key={m.id}
+                    onClick={() => setModelName(m.id)}
+                    className={`
+                      flex items-center p-2.5 rounded-md border text-left transition-all
+                      ${modelName === m.id 
+                        ? 'border-accent-gold/60 bg-white shadow-sm' 
+                        : 'border-stone-100 hover:border-stone-200 bg-stone-50/30'}
+                    `}
+                  >
+                    <div className={`w-2 h-2 rounded-full mr-3 ${modelName === m.id ? 'bg-accent-gold' : 'bg-stone-200'}`}></div>
+                    <div>
+                      <div className="text-xs font-bold text-stone-700">{m.name}</div>
+                      <div className="text-[9px] text-stone-400">{m.description}</div>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Offline opponent needs no key */}
+          {provider === 'local' ? (
+             <div className="flex items-start gap-2 bg-stone-50 p-3 rounded border border-stone-200">
+                <AlertCircle size={14} className="text-stone-400 mt-0.5 shrink-0" />
+                <p className="text-[10px] text-stone-600 leading-relaxed">
+                  离线对手在浏览器内计算落子（吃子/逃子、避免填眼、棋形判断与蒙特卡洛模拟），无需联网和 API Key。它不提供逐手分析，需要解说时请切换到在线模型。
+                </p>
+             </div>
+          ) : provider === 'gtp' ? (
+             // GTP engines run locally behind scripts/gtp-bridge.mjs
+             <div className="space-y-3">
+               <label className="text-xs font-bold uppercase tracking-wider text-stone-500">桥接服务地址</label>
+               <div className="relative group">
+                 <Link className="absolute left-3 top-1/2 transform -translate-y-1/2 text-stone-400" size={16} />
+                 <input
+                   type="text"
+                   value={baseURL}
+                   onChange={(e) => setBaseURL(e.target.value)}
+                   placeholder={DEFAULT_GTP_BRIDGE}
+                   className="w-full pl-10 pr-3 py-2.5 bg-white border border-stone-200 rounded-md text-sm focus:outline-none focus:border-accent-gold focus:ring-2 focus:ring-accent-gold/20 font-mono text-stone-700 placeholder:text-stone-300 transition-all"
+                 />
+               </div>
+               <div className="flex items-start gap-2 bg-stone-50 p-2 rounded border border-stone-200">
+                  <AlertCircle size={14} className="text-stone-400 mt-0.5 shrink-0" />
+                  <p className="text-[10px] text-stone-600 leading-tight">
+                    先在本机运行 <code className="font-mono">npm run gtp-bridge -- katago gtp -model ...</code>（或 <code className="font-mono">npm run gtp-bridge:mock</code> 试用）。落子与分析（胜率、目差、归属）均由引擎计算。
+                  </p>
+               </div>
+               <div className="flex items-center gap-3">
+                 <button
+                   onClick={handleTestConnection}
+                   disabled={isTesting || !baseURL.trim()}
+                   className={`flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded transition-all ${
+                     isTesting
+                       ? 'bg-stone-100 text-stone-400 cursor-not-allowed'
+                       : 'bg-emerald-50 text-emerald-600 hover:bg-emerald-100 border border-emerald-200'
+                   }`}
+                 >
+                   {isTesting ? <Loader2 size={12} className="animate-spin" /> : <RefreshCw size={12} />}
+                   {isTesting ? '测试中...' : '测试连接'}
+                 </button>
+                 {testResult && (
+                   <span className={`text-xs font-medium ${testResult === 'success' ? 'text-emerald-600' : 'text-red-500'}`}>
+                     {testMessage}
+                   </span>
+                 )}
+               </div>
+             </div>
+          ) : (
+          <>
+          {/* Custom OpenAI-compatible server */}
+          {provider === 'custom' && (
+             <div className="space-y-3">
+               <label className="text-xs font-bold uppercase tracking-wider text-stone-500">服务设置</label>
+               <div className="relative group">
+                 <Link className="absolute left-3 top-1/2 transform -translate-y-1/2 text-stone-400" size={16} />
+                 <input
+                   type="text"
+                   value={baseURL}
+                   onChange={(e) => setBaseURL(e.target.value)}
+                   placeholder="http://localhost:11434/v1"
+                   className="w-full pl-10 pr-3 py-2.5 bg-white border border-stone-200 rounded-md text-sm focus:outline-none focus:border-accent-gold focus:ring-2 focus:ring-accent-gold/20 font-mono text-stone-700 placeholder:text-stone-300 transition-all"
+                 />
+               </div>
+               <div className="relative group">
+                 <Cpu className="absolute left-3 top-1/2 transform -translate-y-1/2 text-stone-400" size={16} />
+                 <input
+                   type="text"
+                   value={modelName || ''}
+                   onChange={(e) => setModelName(e.target.value || undefined)}
+                   placeholder="模型名称，如 qwen2.5:14b"
+                   className="w-full pl-10 pr-3 py-2.5 bg-white border border-stone-200 rounded-md text-sm focus:outline-none focus:border-accent-gold focus:ring-2 focus:ring-accent-gold/20 font-mono text-stone-700 placeholder:text-stone-300 transition-all"
+                 />
+               </div>
+               <textarea
+                 value={headersText}
+                 onChange={(e) => setHeadersText(e.target.value)}
+                 placeholder={'自定义请求头，每行一个\nX-Custom-Header: value'}
+                 rows={2}
+                 className="w-full px-3 py-2 bg-white border border-stone-200 rounded-md text-xs focus:outline-none focus:border-accent-gold focus:ring-2 focus:ring-accent-gold/20 font-mono text-stone-700 placeholder:text-stone-300 transition-all resize-none"
+               />
+               <label className="flex items-center gap-2 text-xs text-stone-600 cursor-pointer">
+                 <input
+                   type="checkbox"
+                   checked={jsonMode}
+                   onChange={(e) => setJsonMode(e.target.checked)}
+                   className="accent-stone-800"
+                 />
+                 JSON 模式 (response_format: json_object，服务不支持时请关闭)
+               </label>
+             </div>
+          )}
+
           {/* API Key Input */}
           <div className="space-y-3">
              <label className="flex justify-between items-center text-xs font-bold uppercase tracking-wider text-stone-500">
                 <span>API Key</span>
                 {provider === 'gemini' && <span className="text-[9px] bg-stone-100 px-1.5 py-0.5 rounded text-stone-400 font-normal normal-case">选填 (默认使用内置 Key)</span>}
+                {provider === 'custom' && <span className="text-[9px] bg-stone-100 px-1.5 py-0.5 rounded text-stone-400 font-normal normal-case">选填 (本地服务通常无需 Key)</span>}
              </label>
              <div className="relative group">
                <Key className="absolute left-3 top-1/2 transform -translate-y-1/2 text-stone-400" size={16} />
@@ -288,7 +528,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, currentC
              <div className="flex items-center gap-3">
                <button
                  onClick={handleTestConnection}
-                 disabled={isTesting || !apiKey.trim()}
+                 disabled={isTesting || (provider === 'custom' ? !baseURL.trim() || !modelName : !apiKey.trim())}
                  className={`flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded transition-all ${
                    isTesting
                      ? 'bg-stone-100 text-stone-400 cursor-not-allowed'
@@ -308,6 +548,8 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, currentC
                )}
              </div>
           </div>
+          </>
+          )}
 
         </div>
 
@@ -4,12 +4,15 @@ import { PlayerColor } from '../types';
 interface StoneProps {
   color: PlayerColor;
   isLastMove?: boolean;
+  isDead?: boolean; // Marked dead while counting
+  isGhost?: boolean; // Translucent variation preview
+  number?: number; // Move number drawn on the stone
 }
 
-const Stone: React.FC<StoneProps> = ({ color, isLastMove }) => {
+const Stone: React.FC<StoneProps> = ({ color, isLastMove, isDead, isGhost, number }) => {
   if (color === PlayerColor.Empty) return null;
 
-  const baseClasses = "w-[90%] h-[90%] rounded-full absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 transition-all duration-300";
+  const baseClasses = `w-[90%] h-[90%] rounded-full absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 transition-all duration-300 ${isDead ? 'opacity-40' : ''} ${isGhost ? 'opacity-60 z-20' : ''}`;
   
   // Realistic CSS shadows/gradients for stones
   const blackStoneStyle = {
@@ -27,6 +30,11 @@ const Stone: React.FC<StoneProps> = ({ color, isLastMove }) => {
       className={baseClasses} 
       style={color === PlayerColor.Black ? blackStoneStyle : whiteStoneStyle}
     >
+      {number !== undefined && (
+        <div className={`absolute inset-0 flex items-center justify-center text-[10px] sm:text-xs font-bold ${color === PlayerColor.Black ? 'text-white' : 'text-stone-900'}`}>
+          {number}
+        </div>
+      )}
       {isLastMove && (
         <div className={`absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 w-3 h-3 rounded-full border-2 ${color === PlayerColor.Black ? 'border-white/50' : 'border-black/50'}`} />
       )}
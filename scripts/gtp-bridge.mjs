@@ -0,0 +1,225 @@
+
+// Local HTTP bridge between the browser and a GTP engine (KataGo, Leela Zero, ...).
+//
+// Usage: node scripts/gtp-bridge.mjs [--port 8765] [--origin <url>]... [--] <engine command...>
+//   or:  npm run gtp-bridge -- <engine command...>
+//   e.g. node scripts/gtp-bridge.mjs -- katago gtp -model model.bin.gz -config gtp.cfg
+//        node scripts/gtp-bridge.mjs -- node scripts/mock-gtp.mjs
+//        node scripts/gtp-bridge.mjs --origin https://go.example.com -- katago gtp ...
+//
+// Listens on 127.0.0.1 only. Browsers may call it from the app's origins: the dev server and
+// `vite preview` by default, or the ones given with --origin (repeatable).
+// Only the commands the app sends are accepted (see ALLOWED_COMMANDS).
+//
+// API (JSON, CORS for the allowed origins):
+//   GET  /health                                  -> { ok, name }
+//   POST /gtp     { commands: string[] }          -> { responses: string[] }
+//   POST /analyze { commands, analyze, ms }       -> { responses, info }
+//        Runs `commands`, then streams `analyze` (e.g. "kata-analyze b 50 ownership true")
+//        for `ms` milliseconds and returns the last info line.
+// A failing command ("? ...") answers 400 with { error, failed, responses }.
+
+import http from 'node:http';
+import { spawn } from 'node:child_process';
+
+const HOST = '127.0.0.1';
+const DEFAULT_ORIGINS = ['http://localhost:3000', 'http://127.0.0.1:3000', 'http://localhost:4173', 'http://127.0.0.1:4173'];
+const ALLOWED_COMMANDS = ['boardsize', 'clear_board', 'komi', 'play', 'set_free_handicap', 'genmove', 'kata-analyze', 'name', 'protocol_version'];
+const MAX_BODY = 256 * 1024; // Bytes; a 19x19 game with every move is a few kB
+const MIN_MS = 100;
+const MAX_MS = 30000;
+
+const args = process.argv.slice(2);
+let port = 8765;
+const origins = [];
+while (args[0] === '--port' || args[0] === '--origin') {
+  const [flag, value] = args.splice(0, 2);
+  if (flag === '--port') port = Number(value);
+  else origins.push(value.replace(/\/+$/, ''));
+}
+if (args[0] === '--') args.shift();
+const engineCommand = args;
+const allowedOrigins = origins.length > 0 ? origins : DEFAULT_ORIGINS;
+
+if (engineCommand.length === 0 || !Number.isInteger(port)) {
+  console.error('Usage: node scripts/gtp-bridge.mjs [--port 8765] [--origin <url>]... [--] <engine command...>');
+  process.exit(1);
+}
+
+const engine = spawn(engineCommand[0], engineCommand.slice(1), { stdio: ['pipe', 'pipe', 'inherit'] });
+engine.on('exit', (code) => {
+  console.error(`GTP engine exited (${code})`);
+  process.exit(1);
+});
+
+// --- GTP line reader ---
+// Every response starts with "=" or "?" and ends with an empty line; responses come in command order.
+let buffer = '';
+const readers = [];
+
+engine.stdout.setEncoding('utf8');
+engine.stdout.on('data', (chunk) => {
+  buffer += chunk;
+  let index;
+  while ((index = buffer.indexOf('\n')) >= 0) {
+    const line = buffer.slice(0, index).replace(/\r$/, '');
+    buffer = buffer.slice(index + 1);
+    if (readers.length > 0 && readers[0](line)) readers.shift();
+  }
+});
+
+// Collects the next response; `onInfo` receives the lines streamed by analysis commands
+const readResponse = (onInfo) => new Promise((resolve) => {
+  const lines = [];
+  let started = false;
+  readers.push((line) => {
+    if (!started) {
+      if (!line.startsWith('=') && !line.startsWith('?')) return false;
+      started = true;
+    } else if (line === '') {
+      const text = lines.join('\n');
+      resolve({ ok: text.startsWith('='), text: text.replace(/^[=?]\d*\s?/, '').trim() });
+      return true;
+    }
+    if (onInfo && line.startsWith('info')) onInfo(line);
+    else lines.push(line);
+    return false;
+  });
+});
+
+// One command at a time
+let queue = Promise.resolve();
+const exclusive = (task) => {
+  const run = queue.then(task);
+  queue = run.catch(() => {});
+  return run;
+};
+
+const send = (command, onInfo) => {
+  const response = readResponse(onInfo);
+  engine.stdin.write(`${command}\n`);
+  return response;
+};
+
+const runCommands = async (commands) => {
+  const responses = [];
+  for (const command of commands) {
+    const { ok, text } = await send(command);
+    if (!ok) return { error: text || 'GTP error', failed: command, responses };
+    responses.push(text);
+  }
+  return { responses };
+};
+
+// Analysis streams until the engine receives the next command
+const runAnalysis = async (command, ms) => {
+  let info = '';
+  const response = send(command, (line) => { info = line; });
+  await new Promise((resolve) => setTimeout(resolve, ms));
+  const stop = readResponse();
+  engine.stdin.write('protocol_version\n');
+  const { ok, text } = await response;
+  await stop;
+  return ok ? { info } : { error: text || 'GTP error', failed: command };
+};
+
+// --- Request checks ---
+class RequestError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// One GTP command from the allowlist, on a single line
+const checkCommand = (command) => {
+  if (typeof command !== 'string' || command.trim() === '') throw new RequestError(400, 'Commands must be non-empty strings');
+  if (/[\r\n]/.test(command)) throw new RequestError(400, 'Commands must not contain line breaks');
+  const name = command.trim().split(/\s+/)[0];
+  if (!ALLOWED_COMMANDS.includes(name)) throw new RequestError(400, `Command not allowed: ${name}`);
+  return command.trim();
+};
+
+const checkCommands = (commands) => {
+  if (!Array.isArray(commands)) throw new RequestError(400, 'commands must be an array');
+  return commands.map(checkCommand);
+};
+
+const clampMs = (ms) => Math.min(MAX_MS, Math.max(MIN_MS, Number.isFinite(ms) ? ms : 1000));
+
+// --- HTTP ---
+const readBody = (req) => new Promise((resolve, reject) => {
+  let body = '';
+  let size = 0;
+  req.on('data', (chunk) => {
+    size += chunk.length;
+    // The rest is read and dropped so the 413 still reaches the client
+    if (size > MAX_BODY) reject(new RequestError(413, `Request body over ${MAX_BODY} bytes`));
+    else body += chunk;
+  });
+  req.on('end', () => {
+    try {
+      resolve(body ? JSON.parse(body) : {});
+    } catch (e) {
+      reject(new RequestError(400, `Invalid JSON: ${e.message}`));
+    }
+  });
+});
+
+const reply = (req, res, status, data) => {
+  const headers = { 'Content-Type': 'application/json' };
+  if (allowedOrigins.includes(req.headers.origin)) {
+    headers['Access-Control-Allow-Origin'] = req.headers.origin;
+    headers['Access-Control-Allow-Headers'] = 'Content-Type';
+    headers['Vary'] = 'Origin';
+  }
+  res.writeHead(status, headers);
+  res.end(JSON.stringify(data));
+};
+
+const server = http.createServer(async (req, res) => {
+  // Pages from other sites must not drive the engine; tools without an Origin header (curl) may
+  if (req.headers.origin && !allowedOrigins.includes(req.headers.origin)) {
+    return reply(req, res, 403, { error: `Origin not allowed: ${req.headers.origin}` });
+  }
+  if (req.method === 'OPTIONS') return reply(req, res, 204, {});
+
+  try {
+    if (req.method === 'GET' && req.url === '/health') {
+      const result = await exclusive(() => runCommands(['name']));
+      return reply(req, res, 200, { ok: true, name: result.responses?.[0] || '' });
+    }
+
+    if (req.method === 'POST' && req.url === '/gtp') {
+      const body = await readBody(req);
+      const commands = checkCommands(body.commands ?? []);
+      const result = await exclusive(() => runCommands(commands));
+      return reply(req, res, result.error ? 400 : 200, result);
+    }
+
+    if (req.method === 'POST' && req.url === '/analyze') {
+      const body = await readBody(req);
+      const commands = checkCommands(body.commands ?? []);
+      if (typeof body.analyze !== 'string' || body.analyze.trim() === '') {
+        throw new RequestError(400, 'analyze must be a non-empty string');
+      }
+      const analyze = checkCommand(body.analyze);
+      const ms = clampMs(body.ms);
+      const result = await exclusive(async () => {
+        const setup = await runCommands(commands);
+        if (setup.error) return setup;
+        return { responses: setup.responses, ...(await runAnalysis(analyze, ms)) };
+      });
+      return reply(req, res, result.error ? 400 : 200, result);
+    }
+
+    reply(req, res, 404, { error: 'Not found' });
+  } catch (e) {
+    reply(req, res, e instanceof RequestError ? e.status : 500, { error: e.message });
+  }
+});
+
+server.listen(port, HOST, () => {
+  console.log(`GTP bridge listening on http://${HOST}:${port} (${engineCommand.join(' ')})`);
+  console.log(`Allowed origins: ${allowedOrigins.join(', ')}`);
+});
@@ -0,0 +1,136 @@
+
+// Minimal GTP engine for testing the GTP provider without KataGo.
+// Keeps the stones it is told about (no captures), answers genmove with the empty point
+// closest to the center and streams kata-analyze lines with made-up but well-formed numbers.
+//
+// Usage: node scripts/gtp-bridge.mjs -- node scripts/mock-gtp.mjs
+
+import readline from 'node:readline';
+
+const COLUMNS = 'ABCDEFGHJKLMNOPQRSTUVWXYZ';
+const COMMANDS = ['protocol_version', 'name', 'version', 'known_command', 'list_commands', 'quit',
+  'boardsize', 'clear_board', 'komi', 'play', 'set_free_handicap', 'genmove', 'kata-analyze'];
+
+let size = 19;
+let komi = 7.5;
+let board = new Map(); // "x,y" -> 'b' | 'w'
+let analysisTimer = null;
+
+const toVertex = (x, y) => `${COLUMNS[x]}${size - y}`;
+const fromVertex = (vertex) => {
+  const x = COLUMNS.indexOf(vertex[0].toUpperCase());
+  const y = size - parseInt(vertex.slice(1), 10);
+  return x >= 0 && y >= 0 && y < size ? { x, y } : null;
+};
+
+// Empty points, closest to the center first
+const emptyPoints = () => {
+  const center = (size - 1) / 2;
+  const points = [];
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (!board.has(`${x},${y}`)) points.push({ x, y, d: Math.abs(x - center) + Math.abs(y - center) });
+    }
+  }
+  return points.sort((a, b) => a.d - b.d);
+};
+
+const respond = (id, text = '', ok = true) => {
+  process.stdout.write(`${ok ? '=' : '?'}${id}${text ? ` ${text}` : ''}\n\n`);
+};
+
+// One kata-analyze snapshot: three candidates plus ownership, from the side to move's view
+const analysisLine = (color, visits) => {
+  const stones = [...board.values()];
+  const own = stones.filter(c => c === color).length;
+  const other = stones.length - own;
+  const lead = own - other + (color === 'w' ? komi : -komi);
+  const winrate = Math.min(0.95, Math.max(0.05, 0.5 + lead / 40));
+
+  const moves = emptyPoints().slice(0, 3).map((p, i) => [
+    'info move', toVertex(p.x, p.y), 'visits', Math.round(visits / (i + 1)),
+    'winrate', (winrate - i * 0.03).toFixed(4), 'scoreLead', (lead - i).toFixed(2),
+    'prior', (0.3 / (i + 1)).toFixed(3), 'order', i, 'pv', toVertex(p.x, p.y),
+  ].join(' '));
+
+  const ownership = [];
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const stone = board.get(`${x},${y}`);
+      ownership.push(stone ? (stone === color ? 1 : -1) : 0);
+    }
+  }
+  return `${moves.join(' ')} ownership ${ownership.join(' ')}`;
+};
+
+const stopAnalysis = () => {
+  if (!analysisTimer) return;
+  clearInterval(analysisTimer);
+  analysisTimer = null;
+  process.stdout.write('\n');
+};
+
+const handle = (line) => {
+  stopAnalysis();
+  const match = line.trim().match(/^(\d*)\s*(\S+)\s*(.*)$/);
+  if (!match) return;
+  const [, id, command, rest] = match;
+  const args = rest.split(/\s+/).filter(Boolean);
+
+  switch (command) {
+    case 'protocol_version': return respond(id, '2');
+    case 'name': return respond(id, 'MockGTP');
+    case 'version': return respond(id, '1.0');
+    case 'known_command': return respond(id, COMMANDS.includes(args[0]) ? 'true' : 'false');
+    case 'list_commands': return respond(id, COMMANDS.join('\n'));
+    case 'quit':
+      respond(id);
+      return process.exit(0);
+    case 'boardsize':
+      size = parseInt(args[0], 10);
+      board = new Map();
+      return respond(id);
+    case 'clear_board':
+      board = new Map();
+      return respond(id);
+    case 'komi':
+      komi = parseFloat(args[0]);
+      return respond(id);
+    case 'play': {
+      const color = args[0]?.[0]?.toLowerCase();
+      if (args[1]?.toLowerCase() === 'pass') return respond(id);
+      const point = args[1] && fromVertex(args[1]);
+      if (!point || board.has(`${point.x},${point.y}`)) return respond(id, 'illegal move', false);
+      board.set(`${point.x},${point.y}`, color);
+      return respond(id);
+    }
+    case 'set_free_handicap': {
+      const points = args.map(fromVertex);
+      if (board.size > 0 || points.length < 2 || points.some(p => !p)) return respond(id, 'bad handicap', false);
+      points.forEach(p => board.set(`${p.x},${p.y}`, 'b'));
+      return respond(id);
+    }
+    case 'genmove': {
+      const color = args[0]?.[0]?.toLowerCase();
+      const [point] = emptyPoints();
+      if (!point) return respond(id, 'pass');
+      board.set(`${point.x},${point.y}`, color);
+      return respond(id, toVertex(point.x, point.y));
+    }
+    case 'kata-analyze': {
+      const color = args[0]?.[0]?.toLowerCase() === 'w' ? 'w' : 'b';
+      const interval = Math.max(1, parseInt(args[1] || '50', 10)) * 10;
+      let visits = 0;
+      process.stdout.write(`=${id}\n`);
+      analysisTimer = setInterval(() => {
+        visits += 50;
+        process.stdout.write(`${analysisLine(color, visits)}\n`);
+      }, interval);
+      return;
+    }
+    default:
+      return respond(id, 'unknown command', false);
+  }
+};
+
+readline.createInterface({ input: process.stdin }).on('line', handle);
@@ -0,0 +1,71 @@
+
+// ZenGo service worker: precaches the app shell so hot-seat play and saved games work offline.
+// Built by the service worker plugin in vite.config.ts, which fills in the placeholders below.
+
+const CACHE_VERSION = '__CACHE_VERSION__';
+const PRECACHE = `zengo-precache-${CACHE_VERSION}`;
+const RUNTIME = 'zengo-runtime';
+const PRECACHE_URLS = self.__PRECACHE_MANIFEST;
+
+// Third-party assets loaded by index.html (Tailwind, fonts)
+const RUNTIME_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com', 'esm.sh'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(PRECACHE)
+      .then((cache) => cache.addAll(PRECACHE_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys.filter((key) => key.startsWith('zengo-precache-') && key !== PRECACHE).map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const request = event.request;
+  // AI API calls are POSTs and always go to the network
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  // App shell: network first so updates show up, cached index.html when offline
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request).catch(() => caches.match('/index.html', { cacheName: PRECACHE }))
+    );
+    return;
+  }
+
+  // Built assets are content-hashed: cache first
+  if (url.origin === self.location.origin) {
+    event.respondWith(
+      caches.match(request).then((cached) => cached || fetch(request))
+    );
+    return;
+  }
+
+  // CDN assets: serve from cache, refresh in the background
+  if (RUNTIME_HOSTS.includes(url.hostname)) {
+    event.respondWith(
+      caches.open(RUNTIME).then((cache) =>
+        cache.match(request).then((cached) => {
+          const network = fetch(request)
+            .then((response) => {
+              // Keep error pages out of the cache (opaque cross-origin responses cannot be checked)
+              if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+              return response;
+            })
+            .catch(() => cached);
+          return cached || network;
+        })
+      )
+    );
+  }
+});
@@ -0,0 +1,69 @@
+
+import { Coordinate } from '../types';
+
+// Standard Go coordinates: Skip 'I'
+export const COLUMN_LABELS = "ABCDEFGHJKLMNOPQRST";
+const SGF_LETTERS = "abcdefghijklmnopqrs";
+
+export const SUPPORTED_BOARD_SIZES = [9, 13, 19];
+
+const isOnBoard = (c: Coordinate, size: number) => c.x >= 0 && c.x < size && c.y >= 0 && c.y < size;
+
+// Column letters for a board, e.g. "ABCDEFGHJ" on 9x9
+export const getColumnLabels = (size: number): string[] => COLUMN_LABELS.slice(0, size).split('');
+
+// Internal (0,0) is the top-left corner, e.g. A19 on 19x19, A9 on 9x9
+export const toHumanCoordinate = (c: Coordinate, size: number): string => {
+  if (!isOnBoard(c, size)) return "Unknown";
+  return `${COLUMN_LABELS[c.x]}${size - c.y}`;
+};
+
+export const fromHumanCoordinate = (coordStr: string, size: number): Coordinate | null => {
+  if (!coordStr || coordStr.length < 2) return null;
+  const x = COLUMN_LABELS.indexOf(coordStr[0].toUpperCase());
+  const rowNum = parseInt(coordStr.slice(1), 10);
+  if (x === -1 || isNaN(rowNum)) return null;
+
+  const c = { x, y: size - rowNum };
+  return isOnBoard(c, size) ? c : null;
+};
+
+export const toSGFCoordinate = (c: Coordinate, size: number): string => {
+  if (!isOnBoard(c, size)) return "";
+  return SGF_LETTERS[c.x] + SGF_LETTERS[c.y];
+};
+
+// null for anything that is not a point on this board (importSGF() tells passes from malformed moves)
+export const fromSGFCoordinate = (sgf: string, size: number): Coordinate | null => {
+  if (sgf.length !== 2) return null;
+  const c = { x: SGF_LETTERS.indexOf(sgf[0]), y: SGF_LETTERS.indexOf(sgf[1]) };
+  return isOnBoard(c, size) ? c : null;
+};
+
+// Hoshi: 4-4 points (3-3 on 9x9) and tengen, plus the sides on 19x19
+export const getStarPoints = (size: number): Coordinate[] => {
+  const edge = size >= 13 ? 3 : 2;
+  const mid = (size - 1) / 2;
+  const lines = [edge, mid, size - 1 - edge];
+  const points = lines.flatMap(y => lines.map(x => ({ x, y })));
+  // Only 19x19 marks the sides; smaller boards have the four corners and tengen
+  return size >= 19 ? points : points.filter(p => (p.x === mid) === (p.y === mid));
+};
+
+// Fixed handicap placement on the star points (2-9 stones)
+export const getHandicapPoints = (size: number, count: number): Coordinate[] => {
+  if (count < 2) return [];
+  const edge = size >= 13 ? 3 : 2;
+  const lo = edge;
+  const hi = size - 1 - edge;
+  const mid = (size - 1) / 2;
+
+  const corners = [{ x: hi, y: lo }, { x: lo, y: hi }, { x: hi, y: hi }, { x: lo, y: lo }];
+  const sides = [{ x: lo, y: mid }, { x: hi, y: mid }, { x: mid, y: lo }, { x: mid, y: hi }];
+  const center = { x: mid, y: mid };
+
+  const points = corners.slice(0, Math.min(count, 4));
+  if (count >= 6) points.push(...sides.slice(0, count >= 8 ? 4 : 2));
+  if (count % 2 === 1 && count >= 5) points.push(center);
+  return points;
+};
@@ -0,0 +1,75 @@
+
+import { EvaluationKey, EvaluationLabel, MoveAnalysis } from '../types';
+
+// The one list of move quality grades: the analysis prompt and schemas, the validator,
+// the GTP score mapping, the panel styling and the exports all read it.
+// Plain data only: the panel maps each key to its icon.
+
+export interface EvaluationGrade {
+  key: EvaluationKey;
+  label: EvaluationLabel; // Stored in MoveAnalysis.evaluation
+  minScore: number; // Score band, inclusive
+  maxScore: number;
+  description: string; // For the prompt
+  textClass: string; // Headline color
+  badgeClass: string; // History list badge
+  dotClass: string; // Score dot
+}
+
+export const EVALUATION_GRADES: EvaluationGrade[] = [
+  {
+    key: 'brilliant', label: '神之一手', minScore: 96, maxScore: 100,
+    description: 'Game-defining brilliance.',
+    textClass: 'text-emerald-800', badgeClass: 'text-emerald-700 bg-emerald-50', dotClass: 'bg-emerald-500'
+  },
+  {
+    key: 'good', label: '好棋', minScore: 80, maxScore: 95,
+    description: 'Strong, active, positive move.',
+    textClass: 'text-emerald-800', badgeClass: 'text-emerald-700 bg-emerald-50', dotClass: 'bg-emerald-500'
+  },
+  {
+    key: 'normal', label: '普通', minScore: 60, maxScore: 79,
+    description: 'Standard, acceptable move.',
+    textClass: 'text-stone-800', badgeClass: 'text-stone-600 bg-stone-100', dotClass: 'bg-stone-400'
+  },
+  {
+    key: 'slow', label: '缓手', minScore: 40, maxScore: 59,
+    description: 'Passive, small, or low efficiency (but not a blunder).',
+    textClass: 'text-amber-800', badgeClass: 'text-amber-700 bg-amber-50', dotClass: 'bg-amber-500'
+  },
+  {
+    key: 'questionable', label: '欠妥', minScore: 20, maxScore: 39,
+    description: 'Bad direction, shape defect, or loss of points.',
+    textClass: 'text-red-800', badgeClass: 'text-red-700 bg-red-50', dotClass: 'bg-red-400'
+  },
+  {
+    key: 'regrettable', label: '遗憾', minScore: 0, maxScore: 19,
+    description: 'Severe mistake or blunder.',
+    textClass: 'text-red-800', badgeClass: 'text-red-700 bg-red-50', dotClass: 'bg-red-600'
+  },
+];
+
+export const EVALUATION_LABELS: EvaluationLabel[] = EVALUATION_GRADES.map(grade => grade.label);
+
+// Labels used before the vocabulary was unified, still found in saved games
+const LEGACY_LABELS: Record<string, EvaluationLabel> = {
+  '恶手': '欠妥',
+  '败着': '遗憾',
+};
+
+export const normalizeEvaluation = (value: string): EvaluationLabel | null => {
+  if ((EVALUATION_LABELS as string[]).includes(value)) return value as EvaluationLabel;
+  return LEGACY_LABELS[value] || null;
+};
+
+const NORMAL = EVALUATION_GRADES.find(grade => grade.key === 'normal')!;
+
+export const getGrade = (evaluation: MoveAnalysis['evaluation']): EvaluationGrade =>
+  EVALUATION_GRADES.find(grade => grade.label === evaluation) || NORMAL;
+
+export const getGradeForScore = (score: number): EvaluationGrade =>
+  EVALUATION_GRADES.find(grade => score >= grade.minScore) || EVALUATION_GRADES[EVALUATION_GRADES.length - 1];
+
+// Prompt lines such as: - "好棋" (Score 80-95): Strong, active, positive move.
+export const describeGradesForPrompt = (): string =>
+  EVALUATION_GRADES.map(grade => `   - "${grade.label}" (Score ${grade.minScore}-${grade.maxScore}): ${grade.description}`).join('\n');
@@ -1,22 +1,35 @@
-import { AnalysisHistoryItem, PlayerColor, Coordinate } from '../types';
+import { AnalysisHistoryItem, GameTree, PlayerColor } from '../types';
+import { toHumanCoordinate } from './coordinates';
+import { exportSGF, SGFExportInfo } from './sgfService';
+import { EVALUATION_GRADES, getGrade } from './evaluationGrades';
+import { formatVariation } from './variations';
 
-// Helper to format coordinates (convert 0-18 to A-T, 1-19)
-const formatCoord = (c: Coordinate) => {
-    const letters = "ABCDEFGHJKLMNOPQRST";
-    return `${letters[c.x]}${19 - c.y}`;
+const isAnalyzed = (item: AnalysisHistoryItem) =>
+  !item.isLoading && !item.isQueued && !item.isInvalid && !item.isUnanalyzed && !item.isFailed;
+
+// e.g. "好棋 3 · 普通 5 · 缓手 1" for one player's analyzed moves
+const summarizeGrades = (items: AnalysisHistoryItem[]): string => {
+  const counts = EVALUATION_GRADES
+    .map(grade => ({ grade, count: items.filter(item => getGrade(item.analysis.evaluation).key === grade.key).length }))
+    .filter(({ count }) => count > 0);
+  return counts.length > 0 ? counts.map(({ grade, count }) => `${grade.label} ${count}`).join(' · ') : '暂无';
 };
 
-export const generateGameRecordText = (history: AnalysisHistoryItem[]): string => {
+export const generateGameRecordText = (history: AnalysisHistoryItem[], boardSize: number): string => {
   const date = new Date().toLocaleString();
   const sortedHistory = [...history].sort((a, b) => a.moveNumber - b.moveNumber);
   
   let content = `ZenGo (弈悟) 对局记录\n`;
   content += `日期: ${date}\n`;
+  content += `棋盘: ${boardSize}路\n`;
   content += `总手数: ${sortedHistory.length}\n`;
+  const analyzed = sortedHistory.filter(isAnalyzed);
+  content += `黑方评价: ${summarizeGrades(analyzed.filter(item => item.player === PlayerColor.Black))}\n`;
+  content += `白方评价: ${summarizeGrades(analyzed.filter(item => item.player === PlayerColor.White))}\n`;
   content += `----------------------------------------\n\n`;
 
   sortedHistory.forEach((item) => {
-    const coord = formatCoord(item.coordinate);
+    const coord = toHumanCoordinate(item.coordinate, boardSize);
     const player = item.player === PlayerColor.Black ? '黑方' : '白方';
     
     content += `第 ${item.moveNumber} 手: ${player} 落于 ${coord}\n`;
@@ -25,8 +38,14 @@ export const generateGameRecordText = (history: AnalysisHistoryItem[]): string =
         // Skip if still loading or failed (unless failed has partial info, but usually checking title helps)
         if (item.isLoading) {
              content += `[AI 正在思考中...]\n`;
-        } else if (item.analysis.title === '分析失败') {
+        } else if (item.isQueued) {
+             content += `[等待联网分析]\n`;
+        } else if (item.isFailed) {
              content += `[AI 分析失败]\n`;
+        } else if (item.isInvalid) {
+             content += `[AI 回复无效]\n`;
+        } else if (item.isUnanalyzed) {
+             content += `[未分析]\n`;
         } else {
             content += `AI 评价: ${item.analysis.evaluation} (评分: ${item.analysis.score})\n`;
             content += `主题: ${item.analysis.title}\n`;
@@ -43,11 +62,14 @@ export const generateGameRecordText = (history: AnalysisHistoryItem[]): string =
             if (item.analysis.variations && item.analysis.variations.length > 0) {
                 content += `推荐选点:\n`;
                 item.analysis.variations.forEach((v, i) => {
-                     content += `  ${i+1}. ${formatCoord(v.move)} - ${v.explanation} (评分: ${v.score})\n`;
+                     content += `  ${i+1}. ${formatVariation(v, boardSize)} - ${v.explanation} (评分: ${v.score})\n`;
                 });
             }
         }
     }
+    if (item.comment) {
+        content += `棋谱评注: ${item.comment}\n`;
+    }
     content += `\n----------------------------------------\n\n`;
   });
 
@@ -55,22 +77,35 @@ export const generateGameRecordText = (history: AnalysisHistoryItem[]): string =
   return content;
 };
 
-export const downloadGameRecord = (history: AnalysisHistoryItem[]) => {
-    if (history.length === 0) {
-        alert("暂无对局记录可导出");
-        return;
-    }
-    const text = generateGameRecordText(history);
-    const blob = new Blob([text], { type: 'text/plain;charset=utf-8' });
+// Saves text as a timestamped file, e.g. zengo_game_YYYY-MM-DD_HH-mm-ss.txt
+const downloadFile = (content: string, extension: string, mimeType: string) => {
+    const blob = new Blob([content], { type: mimeType });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
-    // Format: zengo_game_YYYY-MM-DD_HH-mm-ss.txt
     const now = new Date();
     const timestamp = `${now.getFullYear()}-${String(now.getMonth()+1).padStart(2,'0')}-${String(now.getDate()).padStart(2,'0')}_${String(now.getHours()).padStart(2,'0')}-${String(now.getMinutes()).padStart(2,'0')}-${String(now.getSeconds()).padStart(2,'0')}`;
-    link.download = `zengo_game_${timestamp}.txt`;
+    link.download = `zengo_game_${timestamp}.${extension}`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
     URL.revokeObjectURL(url);
 };
+
+export const downloadGameRecord = (history: AnalysisHistoryItem[], boardSize: number) => {
+    if (history.length === 0) {
+        alert("暂无对局记录可导出");
+        return;
+    }
+    const text = generateGameRecordText(history, boardSize);
+    downloadFile(text, 'txt', 'text/plain;charset=utf-8');
+};
+
+export const downloadSGF = (tree: GameTree, history: AnalysisHistoryItem[], info: SGFExportInfo) => {
+    if (tree.nodes[tree.rootId].children.length === 0) {
+        alert("暂无对局记录可导出");
+        return;
+    }
+    const sgf = exportSGF(tree, history, info);
+    downloadFile(sgf, 'sgf', 'application/x-go-sgf;charset=utf-8');
+};
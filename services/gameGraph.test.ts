@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { GraphPoint, MoveAnalysis, PlayerColor } from '../types';
+import { buildGameGraph, findTurningPoints } from './gameGraph';
+import { createInitialState, playMove } from './goGame';
+import { createGameTree, addNode, getNodePath } from './gameTree';
+
+// Graph points from score leads, root first; `engine` marks the moves with an engine lead
+const graph = (leads: number[], engine: number[] = []): GraphPoint[] =>
+  leads.map((scoreLead, moveNumber) => ({
+    nodeId: `n${moveNumber}`,
+    moveNumber,
+    player: moveNumber === 0 ? null : moveNumber % 2 === 1 ? PlayerColor.Black : PlayerColor.White,
+    scoreLead,
+    isEngineLead: engine.includes(moveNumber),
+    quality: null,
+    territoryChange: null,
+  }));
+
+const moveNumbers = (points: GraphPoint[]) => points.map(p => p.moveNumber);
+
+describe('findTurningPoints', () => {
+  it('picks the three biggest swings, in game order', () => {
+    const points = graph([0, 1, -9, -8, 4, 3, -3, 10, 9]);
+    // Swings: 1, 10, 1, 12, 1, 6, 13, 1
+    expect(moveNumbers(findTurningPoints(points))).toEqual([2, 4, 7]);
+  });
+
+  it('ignores swings below five points', () => {
+    expect(findTurningPoints(graph([0, 2, -2, 2, -2]))).toEqual([]);
+    expect(moveNumbers(findTurningPoints(graph([0, 2, -3])))).toEqual([2]);
+  });
+
+  it('only compares leads from the same source', () => {
+    // Move 2 switches from estimates to the engine, move 4 back: neither is a swing
+    const points = graph([0, 1, -20, -19, 0, 1, -7], [2, 3]);
+    expect(moveNumbers(findTurningPoints(points))).toEqual([6]);
+  });
+
+  it('needs at least two points', () => {
+    expect(findTurningPoints(graph([0]))).toEqual([]);
+    expect(findTurningPoints([])).toEqual([]);
+  });
+});
+
+describe('buildGameGraph', () => {
+  const analysis = (score: number, scoreLead?: number): MoveAnalysis => ({
+    evaluation: '普通',
+    score,
+    title: '',
+    detailedAnalysis: '',
+    strategicContext: '',
+    territoryChange: 2,
+    variations: [],
+    engine: scoreLead === undefined ? undefined : { winRate: 0.5, scoreLead, visits: 100 },
+  });
+
+  it('uses engine leads over estimates and skips unusable analyses', () => {
+    const start = createInitialState(9);
+    const first = playMove(start, 2, 2).newState!;
+    const second = playMove(first, 6, 6).newState!;
+    let tree = createGameTree(start, 'root');
+    tree = addNode(tree, 'root', 'a', first);
+    tree = addNode(tree, 'a', 'b', second);
+    const path = getNodePath(tree, 'b');
+
+    const points = buildGameGraph(path, [
+      { nodeId: 'a', moveNumber: 1, player: PlayerColor.Black, coordinate: { x: 2, y: 2 }, analysis: analysis(70, 3.5) },
+      { nodeId: 'b', moveNumber: 2, player: PlayerColor.White, coordinate: { x: 6, y: 6 }, analysis: analysis(40), isFailed: true },
+    ]);
+
+    expect(points.map(p => [p.moveNumber, p.player, p.isEngineLead, p.quality])).toEqual([
+      [0, null, false, null],
+      [1, PlayerColor.Black, true, 70],
+      [2, PlayerColor.White, false, null],
+    ]);
+    expect(points[1].scoreLead).toBe(3.5);
+    expect(points[0].scoreLead).toBe(-7.5); // Empty board: komi
+  });
+});
@@ -0,0 +1,57 @@
+
+import { GameState, GameTreeNode, AnalysisHistoryItem, GraphPoint, PlayerColor } from '../types';
+import { estimateScore } from './goGame';
+
+// Data for the game graph in the analysis panel: score lead and move quality along the current line
+
+const MIN_TURNING_SWING = 5; // Points of lead a move has to swing to count as a turning point
+const TURNING_POINTS = 3;
+
+// Tree states never change, so each position is estimated once
+const estimates = new WeakMap<GameState, number>();
+
+const getEstimatedLead = (state: GameState): number => {
+  let lead = estimates.get(state);
+  if (lead === undefined) {
+    const { leadColor, diff } = estimateScore(state);
+    lead = leadColor === PlayerColor.Black ? diff : -diff;
+    estimates.set(state, lead);
+  }
+  return lead;
+};
+
+// Placeholders and failures carry no real score
+const isAnalyzed = (item: AnalysisHistoryItem | undefined): item is AnalysisHistoryItem =>
+  !!item && !item.isLoading && !item.isQueued && !item.isUnanalyzed && !item.isInvalid && !item.isFailed;
+
+// One point per position of `path` (root first). An engine's score lead wins over the estimate.
+export const buildGameGraph = (path: GameTreeNode[], analysisHistory: AnalysisHistoryItem[]): GraphPoint[] => {
+  const items = new Map(analysisHistory.map(item => [item.nodeId, item]));
+  return path.map((node, moveNumber) => {
+    const item = items.get(node.id);
+    const analysis = isAnalyzed(item) ? item.analysis : null;
+    const engineLead = analysis?.engine?.scoreLead;
+    return {
+      nodeId: node.id,
+      moveNumber,
+      player: node.move?.player ?? null,
+      scoreLead: engineLead ?? getEstimatedLead(node.state),
+      isEngineLead: engineLead !== undefined,
+      quality: analysis ? analysis.score : null,
+      territoryChange: analysis ? analysis.territoryChange : null
+    };
+  });
+};
+
+// The moves with the biggest swings in score lead, in game order. Engine leads and estimates
+// do not compare, so a move only counts when it and the position before come from the same source.
+export const findTurningPoints = (points: GraphPoint[]): GraphPoint[] =>
+  points
+    .slice(1)
+    .filter((point, i) => point.isEngineLead === points[i].isEngineLead)
+    .map(point => ({ point, swing: Math.abs(point.scoreLead - points[point.moveNumber - 1].scoreLead) }))
+    .filter(({ swing }) => swing >= MIN_TURNING_SWING)
+    .sort((a, b) => b.swing - a.swing)
+    .slice(0, TURNING_POINTS)
+    .map(({ point }) => point)
+    .sort((a, b) => a.moveNumber - b.moveNumber);
@@ -0,0 +1,83 @@
+
+import { GameState, GameTree, GameTreeNode, Move } from '../types';
+
+let nodeCounter = 0;
+
+// Unique within the session and across saved games
+export const createNodeId = (): string => `n${Date.now().toString(36)}${(nodeCounter++).toString(36)}`;
+
+export const createGameTree = (initialState: GameState, rootId: string = createNodeId()): GameTree => ({
+  rootId,
+  nodes: {
+    [rootId]: { id: rootId, parentId: null, children: [], move: null, state: initialState },
+  },
+});
+
+const isSameMove = (a: Move | null, b: Move) =>
+  !!a && a.player === b.player && a.type === b.type &&
+  a.coordinate?.x === b.coordinate?.x && a.coordinate?.y === b.coordinate?.y;
+
+// Existing child of parentId reached by the same move, if any
+export const findChild = (tree: GameTree, parentId: string, move: Move): GameTreeNode | null => {
+  const parent = tree.nodes[parentId];
+  if (!parent) return null;
+  const childId = parent.children.find(id => isSameMove(tree.nodes[id].move, move));
+  return childId ? tree.nodes[childId] : null;
+};
+
+// Adds the position after `state`'s last move as a new child (appended, so the main line is kept)
+export const addNode = (tree: GameTree, parentId: string, nodeId: string, state: GameState): GameTree => {
+  const parent = tree.nodes[parentId];
+  if (!parent) return tree;
+  const move = state.moveHistory[state.moveHistory.length - 1] || null;
+  return {
+    ...tree,
+    nodes: {
+      ...tree.nodes,
+      [parentId]: { ...parent, children: [...parent.children, nodeId] },
+      [nodeId]: { id: nodeId, parentId, children: [], move, state },
+    },
+  };
+};
+
+// Replaces a node's position, e.g. once a counted result is confirmed
+export const updateNodeState = (tree: GameTree, nodeId: string, state: GameState): GameTree => {
+  const node = tree.nodes[nodeId];
+  if (!node) return tree;
+  return { ...tree, nodes: { ...tree.nodes, [nodeId]: { ...node, state } } };
+};
+
+// Deletes a node and everything below it
+export const removeSubtree = (tree: GameTree, nodeId: string): GameTree => {
+  const node = tree.nodes[nodeId];
+  if (!node || !node.parentId) return tree;
+
+  const nodes = { ...tree.nodes };
+  const stack = [nodeId];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    stack.push(...nodes[id].children);
+    delete nodes[id];
+  }
+  const parent = nodes[node.parentId];
+  nodes[node.parentId] = { ...parent, children: parent.children.filter(id => id !== nodeId) };
+  return { ...tree, nodes };
+};
+
+// Root -> node; path[k] is the position after k moves
+export const getNodePath = (tree: GameTree, nodeId: string): GameTreeNode[] => {
+  const path: GameTreeNode[] = [];
+  let node: GameTreeNode | undefined = tree.nodes[nodeId];
+  while (node) {
+    path.unshift(node);
+    node = node.parentId ? tree.nodes[node.parentId] : undefined;
+  }
+  return path;
+};
+
+// Follows the first child down to the end of the line
+export const getLineEnd = (tree: GameTree, nodeId: string): GameTreeNode => {
+  let node = tree.nodes[nodeId];
+  while (node.children.length > 0) node = tree.nodes[node.children[0]];
+  return node;
+};
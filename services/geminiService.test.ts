@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { parsePartialJSON } from './geminiService';
+
+describe('parsePartialJSON', () => {
+  it('parses a complete reply and ignores what follows it', () => {
+    expect(parsePartialJSON('Here you go: {"title": "Thick wall", "score": 80} Hope this helps')).toEqual({ title: 'Thick wall', score: 80 });
+  });
+
+  it('closes an open string', () => {
+    expect(parsePartialJSON('{"score": 80, "title": "Thick wa')).toEqual({ score: 80, title: 'Thick wa' });
+  });
+
+  it('closes open arrays and objects', () => {
+    expect(parsePartialJSON('{"variations": [{"move": "D4", "score": 85')).toEqual({ variations: [{ move: 'D4', score: 85 }] });
+  });
+
+  it('falls back to the last complete member when a key is cut off', () => {
+    expect(parsePartialJSON('{"title": "Thick wall", "sco')).toEqual({ title: 'Thick wall' });
+    expect(parsePartialJSON('{"title": "Thick wall", "score":')).toEqual({ title: 'Thick wall' });
+  });
+
+  it('drops an escape cut in half', () => {
+    expect(parsePartialJSON('{"title": "Say \\')).toEqual({ title: 'Say ' });
+  });
+
+  it('keeps braces and quotes inside strings', () => {
+    expect(parsePartialJSON('{"detailedAnalysis": "A {shape} \\"here\\"", "title": "[x')).toEqual({ detailedAnalysis: 'A {shape} "here"', title: '[x' });
+  });
+
+  it('skips reasoning blocks, also unfinished ones', () => {
+    expect(parsePartialJSON('<think>{"title": "draft"}</think>{"title": "Final')).toEqual({ title: 'Final' });
+    expect(parsePartialJSON('<think>Let me think about {"title"')).toBeNull();
+  });
+
+  it('returns null before the object starts', () => {
+    expect(parsePartialJSON('')).toBeNull();
+    expect(parsePartialJSON('```json\n')).toBeNull();
+  });
+});
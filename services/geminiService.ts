@@ -1,9 +1,17 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
 import { GameState, PlayerColor, Coordinate, MoveAnalysis, AIConfig, AIProvider } from "../types";
+import { toHumanCoordinate, toSGFCoordinate, getColumnLabels, getStarPoints } from "./coordinates";
+import { getLocalMove } from "./localEngine";
+import { getGTPMove, analyzeGTPMove } from "./gtpService";
+import { scheduleRequest, createRateLimitError, parseRetryAfter, isRateLimitError } from "./requestScheduler";
+import { EVALUATION_LABELS, describeGradesForPrompt } from "./evaluationGrades";
+import { Validation, validateMoveAnalysis, validateMoveResponse, createInvalidResponseError } from "./responseValidator";
+import { replayPosition, checkVariations } from "./variations";
 
 // Default Configuration Maps
-const PROVIDER_CONFIGS: Record<AIProvider, { baseURL?: string, defaultModel: string, jsonMode: boolean }> = {
+// jsonSchema: the endpoint accepts response_format json_schema (strict structured output)
+const PROVIDER_CONFIGS: Record<AIProvider, { baseURL?: string, defaultModel: string, jsonMode: boolean, jsonSchema?: boolean }> = {
   gemini: {
     defaultModel: 'gemini-3-flash-preview',
     jsonMode: true
@@ -22,9 +30,42 @@ const PROVIDER_CONFIGS: Record<AIProvider, { baseURL?: string, defaultModel: str
     baseURL: 'https://api.aihubmix.com/v1/chat/completions',
     defaultModel: 'gemini-3-flash-preview-free',
     jsonMode: true
+  },
+  openai: {
+    baseURL: 'https://api.openai.com/v1/chat/completions',
+    defaultModel: 'gpt-4.1-mini',
+    jsonMode: true,
+    jsonSchema: true
+  },
+  // Messages API, see callAnthropic()
+  anthropic: {
+    baseURL: 'https://api.anthropic.com/v1/messages',
+    defaultModel: 'claude-sonnet-4-5',
+    jsonMode: false
+  },
+  // Built-in rule engine, never called over the network
+  local: {
+    defaultModel: 'local-engine',
+    jsonMode: false
+  },
+  // Go engine behind the local GTP bridge (see gtpService.ts)
+  gtp: {
+    defaultModel: 'gtp-engine',
+    jsonMode: false
+  },
+  // User-configured OpenAI-compatible server: URL, model and headers come from AIConfig
+  custom: {
+    defaultModel: '',
+    jsonMode: true
   }
 };
 
+// Accepts a server root ("http://localhost:11434/v1") or the full chat completions URL
+export const getChatCompletionsURL = (baseURL: string): string => {
+  const url = baseURL.trim().replace(/\/+$/, '');
+  return url.endsWith('/chat/completions') ? url : `${url}/chat/completions`;
+};
+
 // --- Helper: Robust JSON Extractor ---
 function extractJSON(text: string): any {
   // 0. Pre-processing: Remove <think>...</think> blocks common in reasoning models (like DeepSeek R1)
@@ -70,25 +111,195 @@ interface ServiceResponse {
   usage: number; // Total tokens
 }
 
+// Streaming: onText receives the text so far; signal cancels the request
+interface StreamOptions {
+  onText?: (text: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface AnalyzeOptions {
+  onPartial?: (partial: Partial<MoveAnalysis>) => void; // Called as the fields stream in
+  signal?: AbortSignal;
+}
+
+// --- Helper: Validation with one repair round-trip ---
+// A reply that fails validation is sent back once with the list of problems.
+async function requestValidated<T>(
+  ask: (userPrompt: string) => Promise<ServiceResponse>,
+  userPrompt: string,
+  validate: (raw: unknown) => Validation<T>
+): Promise<{ result: Validation<T>, usage: number }> {
+  const first = await ask(userPrompt);
+  const result = validate(extractJSON(first.text));
+  if (result.value !== null) return { result, usage: first.usage };
+
+  console.warn("AI reply failed validation, requesting a repair:", result.errors, first.text);
+  const repairPrompt = `${userPrompt}
+
+Your previous reply was rejected:
+${first.text.slice(0, 2000)}
+
+Problems:
+${result.errors.map(e => `- ${e}`).join('\n')}
+
+Reply again with the corrected JSON object only.`;
+  const second = await ask(repairPrompt);
+  return { result: validate(extractJSON(second.text)), usage: first.usage + second.usage };
+}
+
+// --- Helper: Partial JSON for streamed replies ---
+// Closes the open strings, arrays and objects of an incomplete reply so the fields received so far
+// can be shown; falls back to the last complete member when the tail is a dangling key.
+export function parsePartialJSON(text: string): any {
+  const source = text.replace(/<think>[\s\S]*?(<\/think>|$)/g, '');
+  const start = source.indexOf('{');
+  if (start < 0) return null;
+  const json = source.slice(start);
+
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  let lastComma: { index: number; closers: string } | null = null;
+  for (let i = 0; i < json.length; i++) {
+    const ch = json[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{') stack.push('}');
+    else if (ch === '[') stack.push(']');
+    else if (ch === '}' || ch === ']') {
+      stack.pop();
+      if (stack.length === 0) return tryParse(json.slice(0, i + 1));
+    } else if (ch === ',') lastComma = { index: i, closers: [...stack].reverse().join('') };
+  }
+
+  const tail = escaped ? json.slice(0, -1) : json;
+  const closed = tryParse(tail + (inString ? '"' : '') + [...stack].reverse().join(''));
+  if (closed) return closed;
+  return lastComma ? tryParse(json.slice(0, lastComma.index) + lastComma.closers) : null;
+}
+
+function tryParse(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+// Reads an OpenAI-style server-sent event stream
+async function readChatStream(res: Response, onText: (text: string) => void): Promise<ServiceResponse> {
+  const reader = res.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+  let usage = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      const data = line.trim();
+      if (!data.startsWith('data:')) continue;
+      const payload = data.slice(5).trim();
+      if (payload === '[DONE]') continue;
+      const chunk = tryParse(payload);
+      const delta = chunk?.choices?.[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onText(text);
+      }
+      if (chunk?.usage?.total_tokens) usage = chunk.usage.total_tokens;
+    }
+  }
+  return { text, usage };
+}
+
+// JSON Schema of a reply, for OpenAI json_schema output and Anthropic forced tool use.
+// Strict mode wants every property required and no extra properties.
+interface StructuredOutput {
+  name: string;
+  description: string;
+  schema: Record<string, unknown>;
+}
+
+const MOVE_OUTPUT: StructuredOutput = {
+  name: 'submit_move',
+  description: 'Submit the chosen move.',
+  schema: {
+    type: 'object',
+    properties: {
+      move: { type: 'string', description: 'Standard coordinate such as "D4", or "pass" / "resign"' }
+    },
+    required: ['move'],
+    additionalProperties: false
+  }
+};
+
+const ANALYSIS_OUTPUT: StructuredOutput = {
+  name: 'submit_analysis',
+  description: 'Submit the analysis of the move.',
+  schema: {
+    type: 'object',
+    properties: {
+      evaluation: { type: 'string', enum: EVALUATION_LABELS },
+      score: { type: 'integer' },
+      title: { type: 'string' },
+      detailedAnalysis: { type: 'string' },
+      strategicContext: { type: 'string' },
+      josekiOrProverbs: { type: 'array', items: { type: 'string' } },
+      territoryChange: { type: 'integer' },
+      variations: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            move: { type: 'string' },
+            sequence: { type: 'array', items: { type: 'string' } },
+            explanation: { type: 'string' },
+            score: { type: 'integer' }
+          },
+          required: ['move', 'sequence', 'explanation', 'score'],
+          additionalProperties: false
+        }
+      }
+    },
+    required: ['evaluation', 'score', 'title', 'detailedAnalysis', 'strategicContext', 'josekiOrProverbs', 'territoryChange', 'variations'],
+    additionalProperties: false
+  }
+};
+
 // --- Helper for OpenAI Compatible Fetch ---
 async function callOpenAICompatible(
   config: AIConfig,
   systemPrompt: string,
-  userPrompt: string
+  userPrompt: string,
+  output?: StructuredOutput,
+  stream?: StreamOptions
 ): Promise<ServiceResponse> {
   const providerConf = PROVIDER_CONFIGS[config.provider];
-  const url = providerConf.baseURL;
+  const url = config.baseURL ? getChatCompletionsURL(config.baseURL) : providerConf.baseURL;
   if (!url) throw new Error("Base URL not defined for this provider");
 
   const headers: Record<string, string> = {
     'Content-Type': 'application/json',
-    'Authorization': `Bearer ${config.apiKey}`
+    ...config.headers
   };
+  // Local servers (Ollama, LM Studio) usually run without a key
+  if (config.apiKey) headers['Authorization'] = `Bearer ${config.apiKey}`;
 
   const model = config.modelName || providerConf.defaultModel;
+  if (!model) throw new Error("Model name not set for this provider");
+  const jsonMode = config.jsonMode ?? providerConf.jsonMode;
   
-  // DeepSeek Reasoner (R1) and some others do not support temperature when reasoning
-  const isReasoningModel = model.includes('reasoner') || model.includes('r1');
+  // DeepSeek Reasoner (R1), OpenAI o-series and some others do not support temperature when reasoning
+  const isReasoningModel = model.includes('reasoner') || model.includes('r1') || /^o\d/.test(model);
 
   const body: any = {
     model: model,
@@ -96,8 +307,11 @@ async function callOpenAICompatible(
       { role: "system", content: systemPrompt },
       { role: "user", content: userPrompt }
     ],
-    stream: false,
+    stream: !!stream?.onText,
   };
+  if (stream?.onText) {
+    body.stream_options = { include_usage: true };
+  }
 
   // Only apply temperature if NOT a reasoning model
   if (!isReasoningModel) {
@@ -107,7 +321,12 @@ async function callOpenAICompatible(
   // Helper to make the actual fetch
   const makeRequest = async (useJsonMode: boolean) => {
     const currentBody = { ...body };
-    if (useJsonMode && providerConf.jsonMode && !isReasoningModel) {
+    if (useJsonMode && output && providerConf.jsonSchema) {
+       currentBody.response_format = {
+         type: "json_schema",
+         json_schema: { name: output.name, schema: output.schema, strict: true }
+       };
+    } else if (useJsonMode && jsonMode && !isReasoningModel) {
        currentBody.response_format = { type: "json_object" };
     } else {
        delete currentBody.response_format;
@@ -116,49 +335,99 @@ async function callOpenAICompatible(
     const res = await fetch(url, {
       method: 'POST',
       headers,
-      body: JSON.stringify(currentBody)
+      body: JSON.stringify(currentBody),
+      signal: stream?.signal
     });
 
     if (!res.ok) {
       const errText = await res.text();
+      if (res.status === 429) {
+        throw createRateLimitError(`${config.provider} API Error (429): ${errText}`, parseRetryAfter(res.headers.get('retry-after')));
+      }
       throw new Error(`${config.provider} API Error (${res.status}): ${errText}`);
     }
 
-    return res.json();
+    if (stream?.onText) return readChatStream(res, stream.onText);
+    const json = await res.json();
+    return { text: json.choices[0].message.content, usage: json.usage?.total_tokens || 0 };
   };
 
   try {
     // Attempt 1: With default JSON mode setting
-    let json;
     try {
-        json = await makeRequest(true);
+        return await makeRequest(true);
     } catch (e: any) {
         // Attempt 2: If JSON mode failed (sometimes caused by strict format checks or specific model issues), try without it
-        // Only retry if it was likely a format/server issue, not auth
-        if (!e.message.includes("401") && !e.message.includes("403")) {
+        // Only retry if it was likely a format/server issue, not auth, rate limiting or a cancel
+        if (e.name !== 'AbortError' && !isRateLimitError(e) && !e.message.includes("401") && !e.message.includes("403")) {
             console.warn(`Attempt 1 failed (${e.message}), retrying without strict JSON mode...`);
-            json = await makeRequest(false);
+            return await makeRequest(false);
         } else {
             throw e;
         }
     }
-
-    const content = json.choices[0].message.content;
-    const usage = json.usage?.total_tokens || 0;
-
-    return { text: content, usage };
   } catch (error: any) {
     console.error("API Call Failed:", error);
     throw error;
   }
 }
 
+// --- Anthropic Messages API ---
+// Structured output through a forced tool call: the tool input is the JSON reply
+async function callAnthropic(
+  config: AIConfig,
+  systemPrompt: string,
+  userPrompt: string,
+  output: StructuredOutput,
+  signal?: AbortSignal
+): Promise<ServiceResponse> {
+  const providerConf = PROVIDER_CONFIGS.anthropic;
+  const res = await fetch(providerConf.baseURL!, {
+    method: 'POST',
+    signal,
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': config.apiKey,
+      'anthropic-version': '2023-06-01',
+      // Keys stay in the browser, calls go straight to the API
+      'anthropic-dangerous-direct-browser-access': 'true'
+    },
+    body: JSON.stringify({
+      model: config.modelName || providerConf.defaultModel,
+      max_tokens: 4096,
+      temperature: 0.2,
+      system: systemPrompt,
+      messages: [{ role: 'user', content: userPrompt }],
+      tools: [{ name: output.name, description: output.description, input_schema: output.schema }],
+      tool_choice: { type: 'tool', name: output.name }
+    })
+  });
+
+  if (!res.ok) {
+    const errText = await res.text();
+    if (res.status === 429) {
+      throw createRateLimitError(`anthropic API Error (429): ${errText}`, parseRetryAfter(res.headers.get('retry-after')));
+    }
+    throw new Error(`anthropic API Error (${res.status}): ${errText}`);
+  }
+
+  const json = await res.json();
+  const usage = (json.usage?.input_tokens || 0) + (json.usage?.output_tokens || 0);
+  const toolUse = json.content?.find((block: any) => block.type === 'tool_use');
+  if (toolUse) return { text: JSON.stringify(toolUse.input), usage };
+
+  // No tool call: fall back to the text blocks and the JSON extractor
+  const text = (json.content || []).filter((block: any) => block.type === 'text').map((block: any) => block.text).join('\n');
+  return { text, usage };
+}
+
 // --- Gemini Specific Logic ---
 const callGemini = async (
   config: AIConfig,
   prompt: string,
   schema?: any,
-  isThinkingDisabled: boolean = false
+  isThinkingDisabled: boolean = false,
+  stream?: StreamOptions
 ): Promise<ServiceResponse> => {
   const keyToUse = config.apiKey || process.env.API_KEY;
   if (!keyToUse) throw new Error("API Key is missing for Gemini.");
@@ -174,6 +443,9 @@ const callGemini = async (
   if (schema) {
     genConfig.responseSchema = schema;
   }
+  if (stream?.signal) {
+    genConfig.abortSignal = stream.signal;
+  }
   
   // Disable thinking for coordinate generation to speed up and enforce schema
   if (isThinkingDisabled && (modelName.includes('gemini-3') || modelName.includes('gemini-2.5') || modelName.includes('flash-thinking'))) {
@@ -206,6 +478,22 @@ const callGemini = async (
   }
 
   try {
+    if (stream?.onText) {
+      const chunks = await ai.models.generateContentStream({
+        model: modelName,
+        contents: prompt,
+        config: genConfig
+      });
+      let text = "";
+      let usage = 0;
+      for await (const chunk of chunks) {
+        text += chunk.text || "";
+        usage = chunk.usageMetadata?.totalTokenCount || usage;
+        stream.onText(text);
+      }
+      return { text, usage };
+    }
+
     const response = await ai.models.generateContent({
       model: modelName,
       contents: prompt,
@@ -217,51 +505,47 @@ const callGemini = async (
 
     return { text, usage };
   } catch (e: any) {
+    // Quota errors carry the wait as RetryInfo ("retryDelay": "30s") instead of a header
+    if (e.status === 429) {
+      const delay = String(e.message).match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+      throw createRateLimitError(e.message, delay ? parseFloat(delay[1]) * 1000 : null);
+    }
     throw e;
   }
 };
 
-// --- Helper: Coordinate Converters ---
-function toSGFCoordinate(c: Coordinate): string {
-  const alphabet = "abcdefghijklmnopqrs"; // 19x19 support
-  if (c.x < 0 || c.x >= 19 || c.y < 0 || c.y >= 19) return "";
-  return alphabet[c.x] + alphabet[c.y];
-}
-
-function toHumanCoordinate(c: Coordinate): string {
-  const letters = "ABCDEFGHJKLMNOPQRST"; // Skip I
-  if (c.x < 0 || c.x >= 19 || c.y < 0 || c.y >= 19) return "Unknown";
-  const col = letters[c.x];
-  const row = 19 - c.y;
-  return `${col}${row}`;
+function generateSGF(gameState: GameState): string {
+  const size = gameState.boardSize;
+  let sgf = `(;GM[1]FF[4]SZ[${size}]KM[${gameState.komi}]`;
+  if (gameState.handicap > 0) sgf += `HA[${gameState.handicap}]`;
+  const { black, white } = gameState.setupStones;
+  if (black.length > 0) sgf += `AB${black.map(c => `[${toSGFCoordinate(c, size)}]`).join('')}`;
+  if (white.length > 0) sgf += `AW${white.map(c => `[${toSGFCoordinate(c, size)}]`).join('')}`;
+  gameState.moveHistory.forEach(move => {
+    // Resignation is not a move in SGF, passes are an empty point
+    if (move.type === 'resign') return;
+    sgf += `;${move.player}[${move.coordinate ? toSGFCoordinate(move.coordinate, size) : ''}]`;
+  });
+  sgf += ")";
+  return sgf;
 }
 
-function fromHumanCoordinate(coordStr: string): Coordinate | null {
-  if (!coordStr || coordStr.length < 2) return null;
-  const letters = "ABCDEFGHJKLMNOPQRST";
-  const colChar = coordStr[0].toUpperCase();
-  const rowStr = coordStr.slice(1);
-  
-  const x = letters.indexOf(colChar);
-  const rowNum = parseInt(rowStr, 10);
-  
-  if (x === -1 || isNaN(rowNum)) return null;
-  
-  const y = 19 - rowNum;
-  if (x < 0 || x >= 19 || y < 0 || y >= 19) return null;
-  
-  return { x, y };
+// --- Helper: Komi / handicap description shared by the prompts ---
+function formatKomi(gameState: GameState): string {
+  const komi = gameState.komi < 0
+    ? `Reverse Komi ${-gameState.komi}: Black receives ${-gameState.komi} points`
+    : `Komi ${gameState.komi}: White receives ${gameState.komi} points`;
+  return gameState.handicap > 0 ? `${komi}, Handicap ${gameState.handicap} stones for Black` : komi;
 }
 
-function generateSGF(history: Coordinate[], size: number): string {
-  let sgf = `(;GM[1]FF[4]SZ[${size}]`;
-  // Assuming Black always starts for simplicity in this history tracking
-  history.forEach((move, index) => {
-    const color = index % 2 === 0 ? "B" : "W"; 
-    sgf += `;${color}[${toSGFCoordinate(move)}]`;
-  });
-  sgf += ")";
-  return sgf;
+// --- Helper: Orientation anchors shared by the prompts ---
+function formatVisualAnchors(size: number): string {
+  const lastCol = getColumnLabels(size)[size - 1];
+  return `- Top-Left: A${size}
+- Top-Right: ${lastCol}${size}
+- Bottom-Left: A1
+- Bottom-Right: ${lastCol}1
+- Direction: Row ${size} is TOP. Row 1 is BOTTOM. Column A is LEFT. Column ${lastCol} is RIGHT.`;
 }
 
 // --- Helper: Enhanced Board Formatter ---
@@ -269,8 +553,8 @@ function getQuadrantDescription(x: number, y: number, size: number): string {
   const center = (size - 1) / 2;
   const isLeft = x < center;
   const isRight = x > center;
-  const isTop = y < center;    // y=0 is Top (Row 19)
-  const isBottom = y > center; // y=18 is Bottom (Row 1)
+  const isTop = y < center;    // y=0 is Top (Row = size)
+  const isBottom = y > center; // y=size-1 is Bottom (Row 1)
 
   let v = "";
   if (isTop) v = "Top";
@@ -298,7 +582,7 @@ function getStoneLocations(board: PlayerColor[][]): { black: string[], white: st
     for (let x = 0; x < size; x++) {
       const cell = board[y][x];
       if (cell !== PlayerColor.Empty) {
-        const coord = toHumanCoordinate({x, y});
+        const coord = toHumanCoordinate({x, y}, size);
         const quad = getQuadrantDescription(x, y, size);
         // Explicitly map: Standard Q16 <-> Internal (15, 3) to force AI to learn the map
         const desc = `${coord} {x:${x}, y:${y}} (${quad})`;
@@ -314,19 +598,20 @@ function getStoneLocations(board: PlayerColor[][]): { black: string[], white: st
   return { black, white };
 }
 
-function formatBoardDeepSeek(board: PlayerColor[][], moveHistory: Coordinate[]): string {
-  const size = board.length;
-  const sgf = generateSGF(moveHistory, size);
+function formatBoardDeepSeek(gameState: GameState): string {
+  const { board, boardSize: size } = gameState;
+  const sgf = generateSGF(gameState);
   const { black, white } = getStoneLocations(board);
   
   // Use the existing grid generator logic
-  const xLabels = "A B C D E F G H J K L M N O P Q R S T".split(' ');
+  const xLabels = getColumnLabels(size);
+  const rule = "   " + "-".repeat(size * 2 - 1) + "\n";
   let gridStr = "   " + xLabels.join(" ") + "\n"; // Clean header
-  gridStr += "   -------------------------------------\n";
+  gridStr += rule;
 
   for (let y = 0; y < size; y++) {
     const yLabel = (size - y).toString().padStart(2, ' ');
-    // Y-axis label (Left: Standard 19-1)
+    // Y-axis label (Left: Standard size-1)
     gridStr += yLabel + "|";
     
     for (let x = 0; x < size; x++) {
@@ -334,10 +619,10 @@ function formatBoardDeepSeek(board: PlayerColor[][], moveHistory: Coordinate[]):
        const char = cell === PlayerColor.Black ? 'X' : (cell === PlayerColor.White ? 'O' : '.');
        gridStr += char + " "; 
     }
-    // Y-axis label (Right: Internal 0-18) -> CRITICAL for AI debugging
+    // Y-axis label (Right: Internal 0-(size-1)) -> CRITICAL for AI debugging
     gridStr += `| y:${y}\n`;
   }
-  gridStr += "   -------------------------------------\n";
+  gridStr += rule;
   gridStr += "   " + xLabels.join(" ") + "\n";
 
   return `[DATA SECTION]
@@ -349,19 +634,19 @@ ${sgf}
 - White Stones (${white.length}): [${white.join(', ')}]
 
 3. Visual Board (Reference):
-(Left: Standard Row 19-1. Right: Internal y 0-18)
-(Top Row is Standard 19 / Internal y=0)
+(Left: Standard Row ${size}-1. Right: Internal y 0-${size - 1})
+(Top Row is Standard ${size} / Internal y=0)
 ${gridStr}`;
 }
 
-function formatBoardEnhanced(board: PlayerColor[][], moveHistory: Coordinate[]): string {
-  const size = board.length;
-  const xLabels = "A B C D E F G H J K L M N O P Q R S T".split(' ');
+function formatBoardEnhanced(gameState: GameState): string {
+  const { board, boardSize: size } = gameState;
+  const xLabels = getColumnLabels(size);
   const { black, white } = getStoneLocations(board);
   
   // 1. ASCII Visual Grid with Coordinates
   let gridStr = "   (Left) " + xLabels.join(" ") + " (Right)\n"; // Header padding + X Labels
-  gridStr += "         (Top 19)\n";
+  gridStr += `         (Top ${size})\n`;
 
   for (let y = 0; y < size; y++) {
     const yLabel = (size - y).toString().padStart(2, ' ');
@@ -382,7 +667,7 @@ function formatBoardEnhanced(board: PlayerColor[][], moveHistory: Coordinate[]):
   gridStr += "   (Left) " + xLabels.join(" ") + " (Right)\n";
 
   // 2. SGF History
-  const sgf = generateSGF(moveHistory, size);
+  const sgf = generateSGF(gameState);
 
   return `Game History (SGF):
 ${sgf}
@@ -392,7 +677,7 @@ Explicit Stone Positions (with Quadrants):
 - White Stones (${white.length}): [${white.join(', ')}]
 
 Visual Board (For spatial context):
-(Coordinates: X=A-T, Y=19-1. X: Black, O: White, .: Empty)
+(Coordinates: X=A-${xLabels[size - 1]}, Y=${size}-1. X: Black, O: White, .: Empty)
 ${gridStr}`;
 }
 
@@ -401,68 +686,87 @@ ${gridStr}`;
 export const getAIMove = async (
   gameState: GameState, 
   invalidCandidates: Coordinate[] = [],
-  config: AIConfig
-): Promise<{ move: Coordinate | null, usage: number }> => {
-  
-  // Select formatter based on provider. Qwen also benefits from explicit stone lists.
-  const useExplicitFormat = config.provider === 'deepseek' || config.provider === 'qwen';
+  config: AIConfig,
+  signal?: AbortSignal
+): Promise<{ move: Coordinate | 'pass' | 'resign' | null, usage: number }> => {
+  if (config.provider === 'local') {
+    return { move: await getLocalMove(gameState, { signal }), usage: 0 };
+  }
+  if (config.provider === 'gtp') return scheduleRequest('gtp', 'move', () => getGTPMove(gameState, config, signal), signal);
+
+  // Select formatter based on provider. Qwen and self-hosted models also benefit from explicit stone lists.
+  const useExplicitFormat = config.provider === 'deepseek' || config.provider === 'qwen' || config.provider === 'custom';
   const boardDescription = useExplicitFormat 
-    ? formatBoardDeepSeek(gameState.board, gameState.moveHistory)
-    : formatBoardEnhanced(gameState.board, gameState.moveHistory);
+    ? formatBoardDeepSeek(gameState)
+    : formatBoardEnhanced(gameState);
 
   const size = gameState.boardSize;
   const color = gameState.currentPlayer === PlayerColor.Black ? 'Black' : 'White';
   
   // Explicitly format the last move if it exists
   let lastMoveInfo = "None (Start of Game)";
-  if (gameState.lastMove) {
+  const previousMove = gameState.moveHistory[gameState.moveHistory.length - 1];
+  if (previousMove?.type === 'pass') {
+    lastMoveInfo = "PASS (your opponent passed; if you also pass, the game ends and is counted)";
+  } else if (gameState.lastMove) {
     const lm = gameState.lastMove;
-    lastMoveInfo = `Internal(${lm.x},${lm.y}) | SGF[${toSGFCoordinate(lm)}] | Standard(${toHumanCoordinate(lm)})`;
+    lastMoveInfo = `Internal(${lm.x},${lm.y}) | SGF[${toSGFCoordinate(lm, size)}] | Standard(${toHumanCoordinate(lm, size)})`;
   }
 
   // Convert invalid candidates to human-readable strings for better AI comprehension
-  const forbiddenHuman = invalidCandidates.map(c => toHumanCoordinate(c));
+  const forbiddenHuman = invalidCandidates.map(c => toHumanCoordinate(c, size));
   const forbiddenStr = forbiddenHuman.length > 0 
-    ? `IMPORTANT: The following coordinates are INVALID (occupied or suicide), DO NOT PLAY HERE: ${JSON.stringify(forbiddenHuman)}`
+    ? `IMPORTANT: The following coordinates are INVALID (occupied, suicide or ko), DO NOT PLAY HERE: ${JSON.stringify(forbiddenHuman)}`
     : '';
 
+  const koRuleDesc = gameState.koRule === 'simple'
+    ? 'an immediate ko recapture is forbidden'
+    : `${gameState.koRule} superko (no move may repeat an earlier board position)`;
+  const koPointInfo = gameState.koPoint
+    ? `Ko: you may NOT retake at ${toHumanCoordinate(gameState.koPoint, size)} this turn.`
+    : '';
+
+  // Example coordinates that exist on this board size (e.g. Q16 / D4 on 19x19)
+  const stars = getStarPoints(size);
+  const topStars = stars.filter(p => p.y === stars[0].y);
+  const topLeftStar = topStars[0];
+  const topRightStar = topStars[topStars.length - 1];
+  const exampleMove = toHumanCoordinate(topRightStar, size);
+  const lastCol = getColumnLabels(size)[size - 1];
+
   const systemPrompt = `You are a professional Go (Weiqi) player (9-dan).
 Board Size: ${size}x${size}.
 Your Color: ${color}.
-Game Rules: Chinese Rules (Komis 7.5).
+Game Rules: Chinese Rules (${formatKomi(gameState)}). Ko rule: ${koRuleDesc}.
 
 Task: Calculate the single best LEGAL next move.
-Output: Strict JSON { "move": "Q16" }.
+Output: Strict JSON { "move": "${exampleMove}" }.
+- Answer { "move": "pass" } when no move gains anything (all borders settled).
+- Answer { "move": "resign" } only when the game is hopelessly lost.
 
 Coordinate System:
-- Standard: A-T (skip I), 19-1. (e.g., Q16, D4, K10)
-- (0,0) Internal is A19.
+- Standard: A-${lastCol} (skip I), ${size}-1. (e.g., ${exampleMove}, ${toHumanCoordinate(topLeftStar, size)})
+- (0,0) Internal is A${size}.
 
 VISUAL ANCHORS (Use these to orient yourself):
-- Top-Left: A19
-- Top-Right: T19
-- Bottom-Left: A1
-- Bottom-Right: T1
-- Direction: Row 19 is TOP. Row 1 is BOTTOM. Column A is LEFT. Column T is RIGHT.
+${formatVisualAnchors(size)}
 
 IMPORTANT:
-- Output only standard coordinates (e.g. "D4").
+- Output only standard coordinates (e.g. "${toHumanCoordinate(topLeftStar, size)}"), "pass" or "resign".
 - Do NOT output internal x/y numbers.`;
 
   const userPrompt = `Current Game State:
 ${boardDescription}
 
 The last move was at: ${lastMoveInfo}
+${koPointInfo}
 
 ${forbiddenStr}
 
 Return JSON { "move": "..." } only. Do not include any markdown formatting or explanations.`;
 
-  let response: ServiceResponse;
-
-  try {
+  const ask = (prompt: string): Promise<ServiceResponse> => {
     if (config.provider === 'gemini') {
-      const prompt = systemPrompt + "\n" + userPrompt;
       const schema = {
         type: Type.OBJECT,
         properties: {
@@ -470,28 +774,25 @@ Return JSON { "move": "..." } only. Do not include any markdown formatting or ex
         },
         required: ['move']
       };
-      response = await callGemini(config, prompt, schema, true);
-    } else {
-      response = await callOpenAICompatible(config, systemPrompt, userPrompt);
+      return scheduleRequest(config.provider, 'move', () => callGemini(config, systemPrompt + "\n" + prompt, schema, true, { signal }), signal);
     }
-
-    const json = extractJSON(response.text);
-    
-    // Parse the standard coordinate string back to internal x,y
-    if (json && typeof json.move === 'string') {
-      const parsed = fromHumanCoordinate(json.move);
-      if (parsed) {
-        return { move: parsed, usage: response.usage };
-      }
-      console.warn("AI returned invalid coordinate string:", json.move);
-    } else if (json && typeof json.x === 'number' && typeof json.y === 'number') {
-       // Fallback for legacy/gemini if it ignores instruction
-       return { move: { x: json.x, y: json.y }, usage: response.usage };
+    if (config.provider === 'anthropic') {
+      return scheduleRequest(config.provider, 'move', () => callAnthropic(config, systemPrompt, prompt, MOVE_OUTPUT, signal), signal);
     }
+    return scheduleRequest(config.provider, 'move', () => callOpenAICompatible(config, systemPrompt, prompt, MOVE_OUTPUT, { signal }), signal);
+  };
+
+  try {
+    // The standard coordinate string is parsed back to internal x,y by the validator
+    const { result, usage } = await requestValidated(ask, userPrompt, raw => validateMoveResponse(raw, size));
+    if (result.value !== null) return { move: result.value, usage };
 
-    console.warn("AI returned invalid JSON structure. Raw text:", response.text);
-    return { move: null, usage: response.usage };
+    // Still invalid after the repair: the caller retries with a new request
+    console.warn("AI move reply invalid after repair:", result.errors);
+    return { move: null, usage };
   } catch (e: any) {
+    // Cancelled (new game, undo): hand the abort back untouched
+    if (signal?.aborted) throw e;
     console.error(`AI Move Error (${config.provider}):`, e);
     // Return partial usage if possible, but easier to just throw or return 0
     throw new Error(e.message || "AI failed to generate move");
@@ -499,16 +800,27 @@ Return JSON { "move": "..." } only. Do not include any markdown formatting or ex
 };
 
 // --- Retry Helper ---
-async function callWithRetry<T>(fn: () => Promise<T>, retries = 2, initialDelay = 1000): Promise<T> {
+// A cancelled request is never retried, and cancelling also ends the wait between attempts
+async function callWithRetry<T>(fn: () => Promise<T>, retries = 2, initialDelay = 1000, signal?: AbortSignal): Promise<T> {
   let attempt = 0;
   while (true) {
     try {
       return await fn();
     } catch (e: any) {
-      if (attempt >= retries) throw e;
+      if (attempt >= retries || e.name === 'AbortError' || signal?.aborted) throw e;
       attempt++;
       console.warn(`API call failed, retrying (${attempt}/${retries})...`, e.message);
-      await new Promise(resolve => setTimeout(resolve, initialDelay * Math.pow(2, attempt - 1)));
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(() => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        }, initialDelay * Math.pow(2, attempt - 1));
+        const onAbort = () => {
+          clearTimeout(timer);
+          reject(signal!.reason);
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+      });
     }
   }
 }
@@ -516,33 +828,53 @@ async function callWithRetry<T>(fn: () => Promise<T>, retries = 2, initialDelay
 export const analyzeMove = async (
   gameState: GameState, 
   move: Coordinate,
-  config: AIConfig
+  config: AIConfig,
+  { onPartial, signal }: AnalyzeOptions = {}
 ): Promise<{ analysis: MoveAnalysis, usage: number }> => {
-  // Select formatter based on provider. Qwen also benefits from explicit stone lists.
-  const useExplicitFormat = config.provider === 'deepseek' || config.provider === 'qwen';
+  // Suggestions are replayed from the position before the move; illegal ones never reach the panel
+  const before = replayPosition(gameState, gameState.moveHistory.length - 1);
+  const withLegalVariations = ({ analysis, usage }: { analysis: MoveAnalysis, usage: number }) =>
+    ({ analysis: { ...analysis, variations: checkVariations(before, analysis.variations) }, usage });
+
+  if (config.provider === 'gtp') {
+    return scheduleRequest('gtp', 'analysis', () => analyzeGTPMove(gameState, move, config, signal), signal).then(withLegalVariations);
+  }
+
+  const stream: StreamOptions = {
+    signal,
+    onText: onPartial && (text => {
+      const partial = parsePartialJSON(text);
+      if (partial) onPartial(partial);
+    })
+  };
+  // Every attempt waits for its turn in the provider's queue
+  const send = (call: () => Promise<ServiceResponse>) =>
+    callWithRetry(() => scheduleRequest(config.provider, 'analysis', call, signal), 2, 1000, signal);
+
+  // Select formatter based on provider. Qwen and self-hosted models also benefit from explicit stone lists.
+  const useExplicitFormat = config.provider === 'deepseek' || config.provider === 'qwen' || config.provider === 'custom';
   const boardDescription = useExplicitFormat 
-    ? formatBoardDeepSeek(gameState.board, gameState.moveHistory)
-    : formatBoardEnhanced(gameState.board, gameState.moveHistory);
+    ? formatBoardDeepSeek(gameState)
+    : formatBoardEnhanced(gameState);
 
   const player = gameState.currentPlayer === PlayerColor.Black ? 'White' : 'Black';
+  const size = gameState.boardSize;
+  const lastCol = getColumnLabels(size)[size - 1];
 
   // Explicit coordinate data for the move being analyzed
-  const humanCoord = toHumanCoordinate(move);
-  const sgfCoord = toSGFCoordinate(move);
+  const humanCoord = toHumanCoordinate(move, size);
+  const sgfCoord = toSGFCoordinate(move, size);
 
   const systemPrompt = `Act as a gentle, wise, and encouraging Go (Weiqi) teacher (9-dan professional level).
 Analyze the last move played by ${player}.
 Location: Internal(x=${move.x}, y=${move.y}) | SGF[${sgfCoord}] | "${humanCoord}"
 
-Board Visualization uses Standard Go coordinates (A-T, 19-1).
-Mapping: (0,0) is Top-Left (A19).
+Board Size: ${size}x${size}. ${formatKomi(gameState)}.
+Board Visualization uses Standard Go coordinates (A-${lastCol}, ${size}-1).
+Mapping: (0,0) is Top-Left (A${size}).
 
 VISUAL ANCHORS:
-- Top-Left: A19
-- Top-Right: T19
-- Bottom-Left: A1
-- Bottom-Right: T1
-- Direction: Row 19 is TOP. Row 1 is BOTTOM. Column A is LEFT. Column T is RIGHT.
+${formatVisualAnchors(size)}
 
 INSTRUCTION:
 1.  **Tone**: Warm, encouraging, and constructive. NEVER use harsh or insulting language.
@@ -562,31 +894,25 @@ ${boardDescription}
 
 Output JSON fields:
 1. evaluation: Choose one based on Score:
-   - "神之一手" (Score > 95): Game-defining brilliance.
-   - "好棋" (Score 80-95): Strong, active, positive move.
-   - "普通" (Score 60-79): Standard, acceptable move.
-   - "缓手" (Score 40-59): Passive, small, or low efficiency (but not a blunder).
-   - "欠妥" (Score 20-39): Bad direction, shape defect, or loss of points.
-   - "遗憾" (Score < 20): Severe mistake or blunder.
+${describeGradesForPrompt()}
 2. score: 0-100 (Be decisive! Do not default to 50-60.)
 3. title: 4-character idiom (e.g. "大局为重", "稳步前行", "错失良机", "一石二鸟")
 4. detailedAnalysis: string (CRITICAL: Compare the situation BEFORE and AFTER the move. What changed? Predict next moves.)
 5. strategicContext: string (Current board situation: Leading/Trailing/Complicated)
 6. josekiOrProverbs: string[]
 7. territoryChange: number (Estimated point loss/gain relative to optimal play)
-8. variations: array of {move: {x,y}, explanation, score} (Suggest better moves if this one was bad)
+8. variations: array of {move, sequence, explanation, score} (Suggest better moves if this one was bad)
+   - move: the alternative for ${player} in the position BEFORE the analyzed move, as a point like "D4" (A-${lastCol}, 1-${size}). It must be an empty, legal point.
+   - sequence: the likely continuation after it, up to 5 points, colors alternating starting with ${player === 'Black' ? 'White' : 'Black'} (empty array if none)
 
 IMPORTANT: Return ONLY the raw JSON string. No Markdown blocks.`;
 
-  let response: ServiceResponse;
-
-  try {
+  const ask = (prompt: string): Promise<ServiceResponse> => {
     if (config.provider === 'gemini') {
-      const prompt = systemPrompt + "\n" + userPrompt;
       const schema = {
         type: Type.OBJECT,
         properties: {
-          evaluation: { type: Type.STRING, enum: ['神之一手', '好棋', '普通', '缓手', '欠妥', '遗憾'] },
+          evaluation: { type: Type.STRING, enum: EVALUATION_LABELS },
           score: { type: Type.INTEGER },
           title: { type: Type.STRING },
           detailedAnalysis: { type: Type.STRING },
@@ -598,7 +924,8 @@ IMPORTANT: Return ONLY the raw JSON string. No Markdown blocks.`;
             items: {
               type: Type.OBJECT,
               properties: {
-                move: { type: Type.OBJECT, properties: { x: {type: Type.INTEGER}, y: {type: Type.INTEGER} } },
+                move: { type: Type.STRING },
+                sequence: { type: Type.ARRAY, items: { type: Type.STRING } },
                 explanation: { type: Type.STRING },
                 score: { type: Type.INTEGER }
               }
@@ -607,44 +934,16 @@ IMPORTANT: Return ONLY the raw JSON string. No Markdown blocks.`;
         },
         required: ['evaluation', 'score', 'title', 'detailedAnalysis', 'strategicContext', 'territoryChange']
       };
-      // Wrap in Retry
-      response = await callWithRetry(() => callGemini(config, prompt, schema, false));
-    } else {
-       // Wrap in Retry
-       response = await callWithRetry(() => callOpenAICompatible(config, systemPrompt, userPrompt));
+      return send(() => callGemini(config, systemPrompt + "\n" + prompt, schema, false, stream));
     }
-
-    const result = extractJSON(response.text);
-    
-    // Safety defaults
-    const safeAnalysis: MoveAnalysis = {
-      evaluation: result?.evaluation || '普通',
-      score: result?.score || 70,
-      title: result?.title || '...',
-      detailedAnalysis: result?.detailedAnalysis || '无法解析详细分析 (Raw text logged)',
-      strategicContext: result?.strategicContext || '',
-      josekiOrProverbs: result?.josekiOrProverbs || [],
-      territoryChange: result?.territoryChange || 0,
-      variations: result?.variations || []
-    };
-
-    if (!result) {
-        console.warn("Analysis JSON parse failed. Raw text:", response.text);
+    if (config.provider === 'anthropic') {
+      return send(() => callAnthropic(config, systemPrompt, prompt, ANALYSIS_OUTPUT, signal));
     }
+    return send(() => callOpenAICompatible(config, systemPrompt, prompt, ANALYSIS_OUTPUT, stream));
+  };
 
-    return { analysis: safeAnalysis, usage: response.usage };
-
-  } catch (e) {
-    console.error(`Analysis Error (${config.provider}):`, e);
-    const fallback: MoveAnalysis = {
-      evaluation: '普通',
-      score: 75,
-      title: "分析中断",
-      detailedAnalysis: `AI (${config.provider}) 服务繁忙或配置错误，请检查 API Key。`,
-      strategicContext: "暂无",
-      territoryChange: 0,
-      variations: []
-    };
-    return { analysis: fallback, usage: 0 };
-  }
+  // No made-up defaults: a failed request rejects, an answer that is still broken is reported as invalid
+  const { result, usage } = await requestValidated(ask, userPrompt, raw => validateMoveAnalysis(raw, gameState.boardSize));
+  if (result.value === null) throw createInvalidResponseError(result.errors, usage);
+  return withLegalVariations({ analysis: result.value, usage });
 };
@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import { Coordinate, GameState, KoRule, PlayerColor } from '../types';
+import { createSetupState, playMove, passMove, scoreGame } from './goGame';
+
+// Position from rows of "B", "W" and "." (row 0 is the top of the board)
+const fromRows = (rows: string[], koRule: KoRule = 'simple', firstPlayer = PlayerColor.Black): GameState => {
+  const black: Coordinate[] = [];
+  const white: Coordinate[] = [];
+  rows.forEach((row, y) => row.split('').forEach((cell, x) => {
+    if (cell === 'B') black.push({ x, y });
+    if (cell === 'W') white.push({ x, y });
+  }));
+  return createSetupState(rows.length, { koRule }, black, white, firstPlayer);
+};
+
+const play = (state: GameState, x: number, y: number): GameState => {
+  const result = playMove(state, x, y);
+  if (!result.success || !result.newState) throw new Error(`(${x},${y}) is illegal: ${result.error}`);
+  return result.newState;
+};
+
+// Black to move can take the ko at (2,1), capturing the white stone at (1,1)
+const KO_ROWS = [
+  '.BW......',
+  'BW.W.....',
+  '.BW......',
+  '.........',
+  '.........',
+  '.........',
+  '.........',
+  '.........',
+  '.........',
+];
+
+describe('ko', () => {
+  it('forbids retaking a ko immediately', () => {
+    const taken = play(fromRows(KO_ROWS), 2, 1);
+    expect(taken.board[1][1]).toBe(PlayerColor.Empty);
+    expect(taken.koPoint).toEqual({ x: 1, y: 1 });
+
+    const retake = playMove(taken, 1, 1);
+    expect(retake.success).toBe(false);
+    expect(retake.error).toMatch(/^Ko/);
+  });
+
+  it('allows the retake after an exchange elsewhere', () => {
+    let state = play(fromRows(KO_ROWS), 2, 1);
+    state = play(state, 8, 8);
+    state = play(state, 8, 0);
+    expect(state.koPoint).toBeNull();
+
+    state = play(state, 1, 1);
+    expect(state.board[1][2]).toBe(PlayerColor.Empty);
+    expect(state.capturedBlack).toBe(1);
+  });
+
+  it('clears the ko point on a pass', () => {
+    const taken = play(fromRows(KO_ROWS), 2, 1);
+    expect(passMove(taken).newState!.koPoint).toBeNull();
+  });
+
+  it('does not make a ko of a capture of two stones', () => {
+    const state = play(fromRows([
+      '.BB......',
+      'BWW......',
+      '.BB......',
+      '.........',
+      '.........',
+      '.........',
+      '.........',
+      '.........',
+      '.........',
+    ]), 3, 1);
+    expect(state.capturedWhite).toBe(2);
+    expect(state.koPoint).toBeNull();
+  });
+});
+
+describe('superko', () => {
+  // Taking the ko, then retaking it with the simple ko point cleared, recreates the starting position
+  const retakeAfterTaking = (koRule: KoRule) => {
+    const taken = play(fromRows(KO_ROWS, koRule), 2, 1);
+    return playMove({ ...taken, koPoint: null }, 1, 1);
+  };
+
+  it('only checks the ko point under the simple ko rule', () => {
+    expect(retakeAfterTaking('simple').success).toBe(true);
+  });
+
+  it.each<KoRule>(['positional', 'situational'])('forbids repeating a position under %s superko', koRule => {
+    const result = retakeAfterTaking(koRule);
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/^Superko/);
+  });
+});
+
+describe('scoreGame', () => {
+  // Black walls off the left, White the right; the middle column touches both and is dame.
+  // The white stone at (1,1) is dead inside Black's area.
+  const finished = (): GameState => ({
+    ...fromRows([
+      '...B.W...',
+      '.W.B.W...',
+      '...B.W...',
+      '...B.W...',
+      '...B.W...',
+      '...B.W...',
+      '...B.W...',
+      '...B.W...',
+      '...B.W...',
+    ]),
+    komi: 7.5,
+    capturedWhite: 2, // Prisoners taken by Black during the game
+    capturedBlack: 1,
+  });
+  const dead = [{ x: 1, y: 1 }];
+
+  it('counts stones and territory under Chinese rules', () => {
+    const score = scoreGame(finished(), dead, 'chinese');
+    expect(score.blackScore).toBe(9 + 27); // The dead stone's point is Black's territory
+    expect(score.whiteScore).toBe(9 + 27 + 7.5);
+    expect(score.result).toEqual({ winner: PlayerColor.White, reason: 'score', margin: 7.5 });
+  });
+
+  it('counts territory and prisoners under Japanese rules', () => {
+    const score = scoreGame(finished(), dead, 'japanese');
+    expect(score.blackScore).toBe(27 + 2 + 1); // Territory, prisoners, the dead stone
+    expect(score.whiteScore).toBe(27 + 1 + 7.5);
+    expect(score.result).toEqual({ winner: PlayerColor.White, reason: 'score', margin: 5.5 });
+  });
+
+  it('marks territory and leaves dame neutral', () => {
+    const { ownership } = scoreGame(finished(), dead, 'chinese');
+    expect(ownership[1][1]).toBe(PlayerColor.Black);
+    expect(ownership[0][7]).toBe(PlayerColor.White);
+    expect(ownership[4][4]).toBe(PlayerColor.Empty);
+  });
+
+  it('leaves a region touching both colors to nobody when a dead stone is not marked', () => {
+    const score = scoreGame(finished(), [], 'chinese');
+    expect(score.ownership[0][0]).toBe(PlayerColor.Empty);
+    expect(score.blackScore).toBe(9);
+  });
+
+  it('reports jigo as a draw', () => {
+    const score = scoreGame({ ...finished(), komi: 0 }, dead, 'chinese');
+    expect(score.result).toEqual({ winner: null, reason: 'score', margin: 0 });
+  });
+});
@@ -1,18 +1,93 @@
 
-import { PlayerColor, GameState, Coordinate } from '../types';
+import { PlayerColor, GameState, Coordinate, Move, GameResult, ScoringRule, ScoreResult, NewGameOptions } from '../types';
+import { getHandicapPoints } from './coordinates';
 
 export const BOARD_SIZE = 19; 
+export const KOMI = 7.5; // Default for even games
+export const HANDICAP_KOMI = 0.5; // Usual komi once Black gets handicap stones
 
-export const createInitialState = (size: number = BOARD_SIZE): GameState => ({
-  board: Array(size).fill(null).map(() => Array(size).fill(PlayerColor.Empty)),
-  boardSize: size,
-  currentPlayer: PlayerColor.Black,
-  moveHistory: [],
-  capturedBlack: 0,
-  capturedWhite: 0,
-  lastMove: null,
-  isGameOver: false,
-});
+// --- Zobrist hashing (position history for superko) ---
+// Seeded PRNG so the same position always hashes the same, even across reloads
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6D2B79F5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return (t ^ (t >>> 14)) >>> 0;
+};
+
+const zobristTables = new Map<number, { black: bigint[]; white: bigint[] }>();
+
+const getZobristTable = (size: number) => {
+  let table = zobristTables.get(size);
+  if (!table) {
+    const random = createRandom(size * 7919);
+    const next = () => (BigInt(random()) << 32n) | BigInt(random());
+    table = {
+      black: Array.from({ length: size * size }, next),
+      white: Array.from({ length: size * size }, next),
+    };
+    zobristTables.set(size, table);
+  }
+  return table;
+};
+
+export const hashBoard = (board: PlayerColor[][]): string => {
+  const size = board.length;
+  const table = getZobristTable(size);
+  let hash = 0n;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const cell = board[y][x];
+      if (cell === PlayerColor.Black) hash ^= table.black[y * size + x];
+      else if (cell === PlayerColor.White) hash ^= table.white[y * size + x];
+    }
+  }
+  return hash.toString(16).padStart(16, '0');
+};
+
+// Position key = board hash + player to move, e.g. "00ab...ffW"
+const toPositionKey = (board: PlayerColor[][], toMove: PlayerColor) => `${hashBoard(board)}${toMove}`;
+
+export const createInitialState = (
+  size: number = BOARD_SIZE,
+  { koRule = 'simple', handicap = 0, komi = KOMI }: Partial<Omit<NewGameOptions, 'boardSize'>> = {}
+): GameState => {
+  // Handicap stones are setup, not moves: White plays first
+  const handicapPoints = getHandicapPoints(size, handicap);
+  const firstPlayer = handicapPoints.length > 0 ? PlayerColor.White : PlayerColor.Black;
+  return createSetupState(size, { koRule, handicap: handicapPoints.length, komi }, handicapPoints, [], firstPlayer);
+};
+
+// Starting position with arbitrary setup stones (e.g. SGF AB/AW)
+export const createSetupState = (
+  size: number,
+  { koRule = 'simple', handicap = 0, komi = KOMI }: Partial<Omit<NewGameOptions, 'boardSize'>>,
+  black: Coordinate[],
+  white: Coordinate[],
+  firstPlayer: PlayerColor = PlayerColor.Black
+): GameState => {
+  const board = Array(size).fill(null).map(() => Array(size).fill(PlayerColor.Empty));
+  black.forEach(({ x, y }) => { board[y][x] = PlayerColor.Black; });
+  white.forEach(({ x, y }) => { board[y][x] = PlayerColor.White; });
+
+  return {
+    board,
+    boardSize: size,
+    currentPlayer: firstPlayer,
+    moveHistory: [],
+    capturedBlack: 0,
+    capturedWhite: 0,
+    lastMove: null,
+    isGameOver: false,
+    result: null,
+    komi,
+    handicap,
+    setupStones: { black, white },
+    koRule,
+    koPoint: null,
+    positionHistory: [toPositionKey(board, firstPlayer)],
+  };
+};
 
 // Helper to check if a coordinate is within bounds
 const isValidBound = (c: Coordinate, size: number) => {
@@ -74,10 +149,20 @@ const getGroupLiberties = (
   return { liberties: uniqueLiberties.size, group };
 };
 
+// All stones connected to the stone at c (empty list for an empty point)
+export const getGroup = (board: PlayerColor[][], c: Coordinate): Coordinate[] => {
+  const color = board[c.y][c.x];
+  if (color === PlayerColor.Empty) return [];
+  return getGroupLiberties(board, c, color).group;
+};
+
 // Check if move is valid and return new state
 export const playMove = (state: GameState, x: number, y: number): { success: boolean; newState?: GameState; error?: string } => {
   if (state.isGameOver) return { success: false, error: "Game Over" };
   if (state.board[y][x] !== PlayerColor.Empty) return { success: false, error: "Spot occupied" };
+  if (state.koPoint && state.koPoint.x === x && state.koPoint.y === y) {
+    return { success: false, error: "Ko: cannot retake immediately" };
+  }
 
   const size = state.boardSize;
   const opponent = state.currentPlayer === PlayerColor.Black ? PlayerColor.White : PlayerColor.Black;
@@ -86,7 +171,7 @@ export const playMove = (state: GameState, x: number, y: number): { success: boo
   const newBoard = state.board.map(row => [...row]);
   newBoard[y][x] = state.currentPlayer;
 
-  let capturedStonesCount = 0;
+  const capturedStones: Coordinate[] = [];
   const neighbors = getNeighbors({ x, y }, size);
 
   // Check captures
@@ -97,62 +182,178 @@ export const playMove = (state: GameState, x: number, y: number): { success: boo
         // Capture group
         group.forEach(stone => {
           newBoard[stone.y][stone.x] = PlayerColor.Empty;
-          capturedStonesCount++;
+          capturedStones.push(stone);
         });
       }
     }
   });
+  const capturedStonesCount = capturedStones.length;
 
   // Check suicide
-  const { liberties: selfLiberties } = getGroupLiberties(newBoard, { x, y }, state.currentPlayer);
+  const { liberties: selfLiberties, group: selfGroup } = getGroupLiberties(newBoard, { x, y }, state.currentPlayer);
   if (selfLiberties === 0 && capturedStonesCount === 0) {
     return { success: false, error: "Suicide move not allowed" };
   }
 
+  // Check superko against every earlier position
+  const positionKey = toPositionKey(newBoard, opponent);
+  if (state.koRule === 'positional') {
+    const boardHash = positionKey.slice(0, -1);
+    if (state.positionHistory.some(key => key.slice(0, -1) === boardHash)) {
+      return { success: false, error: "Superko: position repeats" };
+    }
+  } else if (state.koRule === 'situational') {
+    if (state.positionHistory.includes(positionKey)) {
+      return { success: false, error: "Superko: position repeats" };
+    }
+  }
+
+  // A single stone that captured a single stone and sits in atari creates a ko
+  const koPoint = capturedStonesCount === 1 && selfGroup.length === 1 && selfLiberties === 1
+    ? capturedStones[0]
+    : null;
+
   return {
     success: true,
     newState: {
       ...state,
       board: newBoard,
       currentPlayer: opponent,
-      moveHistory: [...state.moveHistory, { x, y }],
+      moveHistory: [...state.moveHistory, { player: state.currentPlayer, type: 'play', coordinate: { x, y } }],
       lastMove: { x, y },
+      koPoint,
+      positionHistory: [...state.positionHistory, positionKey],
       capturedBlack: state.currentPlayer === PlayerColor.White ? state.capturedBlack + capturedStonesCount : state.capturedBlack,
       capturedWhite: state.currentPlayer === PlayerColor.Black ? state.capturedWhite + capturedStonesCount : state.capturedWhite,
     }
   };
 };
 
-// Generate a random valid move for fallback
-export const getRandomValidMove = (gameState: GameState): Coordinate | null => {
-  const size = gameState.boardSize;
-  const attempts = 50; // Try 50 times to find a random spot
-  
-  for (let i = 0; i < attempts; i++) {
-    const x = Math.floor(Math.random() * size);
-    const y = Math.floor(Math.random() * size);
-    
-    // Quick check if empty
-    if (gameState.board[y][x] === PlayerColor.Empty) {
-      // Full rules check
-      const result = playMove(gameState, x, y);
-      if (result.success) {
-        return { x, y };
-      }
+// Pass the turn. Two consecutive passes end the game (the result is left for counting).
+export const passMove = (state: GameState): { success: boolean; newState?: GameState; error?: string } => {
+  if (state.isGameOver) return { success: false, error: "Game Over" };
+
+  const opponent = state.currentPlayer === PlayerColor.Black ? PlayerColor.White : PlayerColor.Black;
+  const previous = state.moveHistory[state.moveHistory.length - 1];
+  const pass: Move = { player: state.currentPlayer, type: 'pass', coordinate: null };
+
+  return {
+    success: true,
+    newState: {
+      ...state,
+      currentPlayer: opponent,
+      moveHistory: [...state.moveHistory, pass],
+      lastMove: null,
+      koPoint: null,
+      positionHistory: [...state.positionHistory, toPositionKey(state.board, opponent)],
+      isGameOver: previous?.type === 'pass',
     }
-  }
-  
-  // If random sampling failed (board very full?), scan linearly
+  };
+};
+
+// The current player resigns, the opponent wins
+export const resignGame = (state: GameState): { success: boolean; newState?: GameState; error?: string } => {
+  if (state.isGameOver) return { success: false, error: "Game Over" };
+
+  const opponent = state.currentPlayer === PlayerColor.Black ? PlayerColor.White : PlayerColor.Black;
+  const resign: Move = { player: state.currentPlayer, type: 'resign', coordinate: null };
+
+  return {
+    success: true,
+    newState: {
+      ...state,
+      moveHistory: [...state.moveHistory, resign],
+      isGameOver: true,
+      result: { winner: opponent, reason: 'resign' },
+    }
+  };
+};
+
+// Standard result notation, e.g. "B+R", "W+6.5", "0" for jigo
+export const formatResult = (result: GameResult): string => {
+  if (!result.winner) return '0';
+  const margin = result.reason === 'resign' ? 'R' : (result.margin ?? 0).toString();
+  return `${result.winner}+${margin}`;
+};
+
+// Exact count of a finished game once dead stones have been marked
+export const scoreGame = (
+  state: GameState,
+  deadStones: Coordinate[],
+  rule: ScoringRule
+): ScoreResult => {
+  const size = state.boardSize;
+  const board = state.board.map(row => [...row]);
+
+  // Dead stones come off the board and count as prisoners
+  let deadBlack = 0;
+  let deadWhite = 0;
+  deadStones.forEach(({ x, y }) => {
+    if (board[y][x] === PlayerColor.Black) deadBlack++;
+    else if (board[y][x] === PlayerColor.White) deadWhite++;
+    board[y][x] = PlayerColor.Empty;
+  });
+
+  const ownership: PlayerColor[][] = board.map(row => [...row]);
+  let blackTerritory = 0;
+  let whiteTerritory = 0;
+
+  // Flood fill each empty region; it is territory if only one color borders it
+  const visited = new Set<string>();
   for (let y = 0; y < size; y++) {
     for (let x = 0; x < size; x++) {
-       if (gameState.board[y][x] === PlayerColor.Empty) {
-          const result = playMove(gameState, x, y);
-          if (result.success) return { x, y };
-       }
+      if (board[y][x] !== PlayerColor.Empty || visited.has(`${x},${y}`)) continue;
+
+      const region: Coordinate[] = [];
+      const borders = new Set<PlayerColor>();
+      const queue = [{ x, y }];
+      visited.add(`${x},${y}`);
+
+      while (queue.length > 0) {
+        const current = queue.shift()!;
+        region.push(current);
+        for (const n of getNeighbors(current, size)) {
+          const cell = board[n.y][n.x];
+          const key = `${n.x},${n.y}`;
+          if (cell !== PlayerColor.Empty) {
+            borders.add(cell);
+          } else if (!visited.has(key)) {
+            visited.add(key);
+            queue.push(n);
+          }
+        }
+      }
+
+      const owner = borders.size === 1 ? [...borders][0] : PlayerColor.Empty;
+      region.forEach(p => { ownership[p.y][p.x] = owner; });
+      if (owner === PlayerColor.Black) blackTerritory += region.length;
+      if (owner === PlayerColor.White) whiteTerritory += region.length;
     }
   }
 
-  return null; // No moves left
+  let blackScore: number;
+  let whiteScore: number;
+  if (rule === 'chinese') {
+    const stones = (color: PlayerColor) => board.reduce((sum, row) => sum + row.filter(c => c === color).length, 0);
+    blackScore = stones(PlayerColor.Black) + blackTerritory;
+    whiteScore = stones(PlayerColor.White) + whiteTerritory + state.komi;
+  } else {
+    blackScore = blackTerritory + state.capturedWhite + deadWhite;
+    whiteScore = whiteTerritory + state.capturedBlack + deadBlack + state.komi;
+  }
+
+  const diff = blackScore - whiteScore;
+  return {
+    rule,
+    blackScore,
+    whiteScore,
+    ownership,
+    result: {
+      winner: diff > 0 ? PlayerColor.Black : diff < 0 ? PlayerColor.White : null,
+      reason: 'score',
+      margin: Math.abs(diff),
+    },
+  };
 };
 
 // Heuristic for influence (visualizes territory potential)
@@ -208,8 +409,8 @@ export const estimateScore = (gameState: GameState): { leadColor: PlayerColor, d
   blackPoints += gameState.capturedWhite;
   whitePoints += gameState.capturedBlack;
   
-  // Komi (typically 6.5 or 7.5)
-  whitePoints += 7.5;
+  // Komi (typically 6.5 or 7.5, negative for reverse komi)
+  whitePoints += gameState.komi;
 
   const diff = blackPoints - whitePoints;
   
@@ -0,0 +1,207 @@
+
+import { GameState, PlayerColor, Coordinate, MoveAnalysis, AIConfig, EngineEvaluation, Variation } from '../types';
+import { toHumanCoordinate, fromHumanCoordinate } from './coordinates';
+import { getGradeForScore } from './evaluationGrades';
+
+// Go engines (KataGo, Leela Zero, ...) speak GTP on stdin/stdout; the browser reaches them
+// through scripts/gtp-bridge.mjs. Every request resends the whole position, so branches,
+// undo and reloads never leave the engine out of sync.
+
+export const DEFAULT_GTP_BRIDGE = 'http://127.0.0.1:8765';
+const ANALYSIS_MS = 1500; // Thinking time per analyzed position
+
+const toGTPColor = (color: PlayerColor) => color === PlayerColor.Black ? 'b' : 'w';
+
+const bridgeURL = (config: AIConfig, path: string) => `${(config.baseURL || DEFAULT_GTP_BRIDGE).replace(/\/+$/, '')}${path}`;
+
+async function callBridge(config: AIConfig, path: string, body: object, signal?: AbortSignal): Promise<{ responses: string[]; info?: string }> {
+  const res = await fetch(bridgeURL(config, path), {
+    method: 'POST',
+    signal,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(`GTP bridge error (${res.status}): ${data.error || res.statusText}${data.failed ? ` [${data.failed}]` : ''}`);
+  }
+  return data;
+}
+
+// Name of the engine behind the bridge, for the settings connection test
+export const checkGTPBridge = async (config: AIConfig): Promise<string> => {
+  const res = await fetch(bridgeURL(config, '/health'));
+  if (!res.ok) throw new Error(`GTP bridge error (${res.status})`);
+  const data = await res.json();
+  return data.name || 'GTP';
+};
+
+// Commands that rebuild the position after `moveCount` moves: size, komi, setup stones, moves
+export const positionCommands = (state: GameState, moveCount: number = state.moveHistory.length): string[] => {
+  const size = state.boardSize;
+  const commands = [`boardsize ${size}`, 'clear_board', `komi ${state.komi}`];
+  const { black, white } = state.setupStones;
+  if (state.handicap >= 2 && black.length === state.handicap && white.length === 0) {
+    // Real handicap stones, so the engine counts them as handicap (komi, White to move)
+    commands.push(`set_free_handicap ${black.map(c => toHumanCoordinate(c, size)).join(' ')}`);
+  } else {
+    // GTP has no setup command: other setup positions (SGF AB/AW) are only approximated by
+    // playing the stones as moves, which the engine sees as extra moves in its history
+    black.forEach(c => commands.push(`play b ${toHumanCoordinate(c, size)}`));
+    white.forEach(c => commands.push(`play w ${toHumanCoordinate(c, size)}`));
+  }
+  state.moveHistory.slice(0, moveCount).forEach(move => {
+    if (move.type === 'resign') return;
+    const vertex = move.type === 'pass' || !move.coordinate ? 'pass' : toHumanCoordinate(move.coordinate, size);
+    commands.push(`play ${toGTPColor(move.player)} ${vertex}`);
+  });
+  return commands;
+};
+
+export const getGTPMove = async (
+  gameState: GameState,
+  config: AIConfig,
+  signal?: AbortSignal
+): Promise<{ move: Coordinate | 'pass' | 'resign' | null, usage: number }> => {
+  const commands = [...positionCommands(gameState), `genmove ${toGTPColor(gameState.currentPlayer)}`];
+  const { responses } = await callBridge(config, '/gtp', { commands }, signal);
+  const answer = (responses[responses.length - 1] || '').trim().toLowerCase();
+  if (answer === 'pass' || answer === 'resign') return { move: answer, usage: 0 };
+  return { move: fromHumanCoordinate(answer, gameState.boardSize), usage: 0 };
+};
+
+// --- kata-analyze output ---
+// Numbers are reported for the side to move (KataGo's default reportAnalysisWinratesAs = SIDETOMOVE).
+
+export interface KataCandidate {
+  move: string; // GTP vertex or "pass"
+  visits: number;
+  winrate: number;
+  scoreLead: number;
+  prior: number;
+  order: number;
+  pv: string[];
+}
+
+export const parseKataAnalyze = (line: string, size: number): { candidates: KataCandidate[]; ownership?: number[][] } => {
+  const [infoPart, ownershipPart] = line.split(/\bownership\b/);
+  const candidates = infoPart.split(/\binfo\b/).map(chunk => chunk.trim()).filter(Boolean).map(chunk => {
+    const tokens = chunk.split(/\s+/);
+    const candidate: KataCandidate = { move: '', visits: 0, winrate: 0.5, scoreLead: 0, prior: 0, order: 0, pv: [] };
+    for (let i = 0; i < tokens.length; i++) {
+      const key = tokens[i];
+      if (key === 'pv') {
+        // The principal variation runs until the next key (pvVisits etc.) or the end
+        while (i + 1 < tokens.length && /^([A-Za-z]\d+|pass)$/i.test(tokens[i + 1])) candidate.pv.push(tokens[++i]);
+      } else if (key === 'move') {
+        candidate.move = tokens[++i];
+      } else if (key === 'visits' || key === 'winrate' || key === 'scoreLead' || key === 'prior' || key === 'order') {
+        candidate[key] = parseFloat(tokens[++i]);
+      }
+    }
+    return candidate;
+  }).sort((a, b) => a.order - b.order);
+
+  let ownership: number[][] | undefined;
+  const values = ownershipPart?.trim().split(/\s+/).map(parseFloat) || [];
+  if (values.length === size * size) {
+    ownership = Array.from({ length: size }, (_, y) => values.slice(y * size, (y + 1) * size));
+  }
+  return { candidates, ownership };
+};
+
+const analyzePosition = async (state: GameState, moveCount: number, toMove: PlayerColor, config: AIConfig, signal?: AbortSignal) => {
+  const { info } = await callBridge(config, '/analyze', {
+    commands: positionCommands(state, moveCount),
+    analyze: `kata-analyze ${toGTPColor(toMove)} 50 ownership true`,
+    ms: ANALYSIS_MS
+  }, signal);
+  const parsed = parseKataAnalyze(info || '', state.boardSize);
+  if (parsed.candidates.length === 0) throw new Error('GTP engine returned no analysis');
+  return parsed;
+};
+
+const formatPercent = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+const formatLead = (lead: number) => `${lead >= 0 ? '+' : ''}${lead.toFixed(1)} 目`;
+
+// Compares the engine's view before and after the move. `gameState` is the position after it.
+export const analyzeGTPMove = async (
+  gameState: GameState,
+  move: Coordinate,
+  config: AIConfig,
+  signal?: AbortSignal
+): Promise<{ analysis: MoveAnalysis, usage: number }> => {
+  const size = gameState.boardSize;
+  const moveCount = gameState.moveHistory.length;
+  const mover = gameState.moveHistory[moveCount - 1]?.player ?? (gameState.currentPlayer === PlayerColor.Black ? PlayerColor.White : PlayerColor.Black);
+  const opponent = gameState.currentPlayer;
+  const moverName = mover === PlayerColor.Black ? '黑' : '白';
+  const played = toHumanCoordinate(move, size);
+
+  const before = await analyzePosition(gameState, moveCount - 1, mover, config, signal);
+  const after = await analyzePosition(gameState, moveCount, opponent, config, signal);
+
+  const best = before.candidates[0];
+  const reply = after.candidates[0];
+  const winAfter = 1 - reply.winrate; // Back to the mover's point of view
+  const leadAfter = -reply.scoreLead;
+  const loss = Math.max(0, best.winrate - winAfter);
+  const playedCandidate = before.candidates.find(c => c.move.toUpperCase() === played);
+  const isBest = best.move.toUpperCase() === played;
+
+  // A first choice the engine's intuition (prior) did not see is the brilliant kind
+  const score = isBest && playedCandidate && playedCandidate.prior < 0.05
+    ? 98
+    : Math.max(0, Math.min(95, Math.round(94 - loss * 400)));
+
+  const variations: Variation[] = before.candidates
+    .filter(c => c.move.toUpperCase() !== played)
+    .slice(0, 3)
+    .flatMap(c => {
+      const coordinate = fromHumanCoordinate(c.move, size);
+      if (!coordinate) return [];
+      // The principal variation up to the first pass, shown as numbered stones
+      const rest = c.pv.slice(1, 6);
+      const passAt = rest.findIndex(m => !fromHumanCoordinate(m, size));
+      return [{
+        move: coordinate,
+        sequence: (passAt < 0 ? rest : rest.slice(0, passAt)).map(m => fromHumanCoordinate(m, size)!),
+        explanation: `胜率 ${formatPercent(c.winrate)}，${formatLead(c.scoreLead)}${c.pv.length > 1 ? `，参考变化 ${c.pv.slice(0, 6).join(' ')}` : ''}`,
+        score: Math.round(c.winrate * 100)
+      }];
+    });
+
+  // Everything stored from Black's point of view
+  const sign = mover === PlayerColor.Black ? 1 : -1;
+  const ownershipSign = opponent === PlayerColor.Black ? 1 : -1;
+  const ownership = after.ownership?.map(row => row.map(v => v * ownershipSign));
+  const engine: EngineEvaluation = {
+    winRate: mover === PlayerColor.Black ? winAfter : 1 - winAfter,
+    scoreLead: leadAfter * sign,
+    visits: reply.visits,
+    ownership
+  };
+
+  let territory = '';
+  if (ownership) {
+    const black = ownership.flat().filter(v => v > 0.5).length;
+    const white = ownership.flat().filter(v => v < -0.5).length;
+    territory = `引擎归属判断：黑方约 ${black} 点，白方约 ${white} 点。`;
+  }
+
+  return {
+    analysis: {
+      evaluation: getGradeForScore(score).label, // Same score bands as the LLM prompt
+      score,
+      title: isBest ? '引擎首选' : `首选 ${best.move}`,
+      detailedAnalysis: `${moverName}棋 ${played} 之后，${moverName}方胜率 ${formatPercent(winAfter)}（引擎首选 ${best.move} 为 ${formatPercent(best.winrate)}，损失 ${formatPercent(loss)}），形势 ${formatLead(leadAfter)}。` +
+        (reply.pv.length > 0 ? `对方最佳应对：${reply.pv.slice(0, 6).join(' ')}。` : ''),
+      strategicContext: `${territory}本手计算量 ${reply.visits} 次模拟。`,
+      josekiOrProverbs: [],
+      territoryChange: Math.round((leadAfter - best.scoreLead) * 10) / 10,
+      variations,
+      engine
+    },
+    usage: 0
+  };
+};
@@ -0,0 +1,336 @@
+
+import { PlayerColor, GameState, Coordinate } from '../types';
+import { playMove, getGroup, estimateScore } from './goGame';
+
+// Offline opponent: rule-based move candidates (captures, atari, eyes, shape)
+// refined by short Monte Carlo playouts. No API key needed.
+
+const CANDIDATES = 6; // Best heuristic moves that get playouts
+const DEFAULT_TIME_BUDGET = 800; // ms
+const BATCH_MS = 30; // Playouts between returns to the event loop, so the UI keeps responding
+const EYE_PENALTY = -1000; // Never fill an own eye
+
+interface Candidate {
+  coordinate: Coordinate;
+  prior: number; // Heuristic score
+  wins: number;
+  playouts: number;
+}
+
+const opponentOf = (color: PlayerColor) => color === PlayerColor.Black ? PlayerColor.White : PlayerColor.Black;
+
+const getNeighbors = ({ x, y }: Coordinate, size: number): Coordinate[] =>
+  [{ x, y: y - 1 }, { x, y: y + 1 }, { x: x - 1, y }, { x: x + 1, y }]
+    .filter(n => n.x >= 0 && n.x < size && n.y >= 0 && n.y < size);
+
+const getDiagonals = ({ x, y }: Coordinate, size: number): Coordinate[] =>
+  [{ x: x - 1, y: y - 1 }, { x: x + 1, y: y - 1 }, { x: x - 1, y: y + 1 }, { x: x + 1, y: y + 1 }]
+    .filter(n => n.x >= 0 && n.x < size && n.y >= 0 && n.y < size);
+
+const countLiberties = (board: PlayerColor[][], group: Coordinate[]): number => {
+  const size = board.length;
+  const liberties = new Set<number>();
+  group.forEach(stone => getNeighbors(stone, size).forEach(n => {
+    if (board[n.y][n.x] === PlayerColor.Empty) liberties.add(n.y * size + n.x);
+  }));
+  return liberties.size;
+};
+
+// An empty point surrounded by one color whose diagonals are mostly that color too
+export const isEye = (board: PlayerColor[][], c: Coordinate, color: PlayerColor): boolean => {
+  const size = board.length;
+  if (board[c.y][c.x] !== PlayerColor.Empty) return false;
+  if (getNeighbors(c, size).some(n => board[n.y][n.x] !== color)) return false;
+
+  const diagonals = getDiagonals(c, size);
+  const enemyDiagonals = diagonals.filter(d => board[d.y][d.x] === opponentOf(color)).length;
+  // On the edge a single enemy diagonal already makes it a false eye
+  return diagonals.length === 4 ? enemyDiagonals < 2 : enemyDiagonals === 0;
+};
+
+// --- Shape patterns around the played point ---
+
+// Three own stones in a 2x2 square with the fourth point empty
+const formsEmptyTriangle = (board: PlayerColor[][], c: Coordinate, color: PlayerColor): boolean => {
+  const size = board.length;
+  for (const [dx, dy] of [[1, 1], [1, -1], [-1, 1], [-1, -1]]) {
+    const a = { x: c.x + dx, y: c.y };
+    const b = { x: c.x, y: c.y + dy };
+    const d = { x: c.x + dx, y: c.y + dy };
+    if ([a, b, d].some(p => p.x < 0 || p.x >= size || p.y < 0 || p.y >= size)) continue;
+    const cells = [board[a.y][a.x], board[b.y][b.x], board[d.y][d.x]];
+    const own = cells.filter(cell => cell === color).length;
+    if (own === 2 && cells.includes(PlayerColor.Empty)) return true;
+  }
+  return false;
+};
+
+// Point between two enemy stones on a line: playing here separates them
+const isCuttingPoint = (board: PlayerColor[][], c: Coordinate, color: PlayerColor): boolean => {
+  const size = board.length;
+  const enemy = opponentOf(color);
+  const at = (x: number, y: number) => (x >= 0 && x < size && y >= 0 && y < size) ? board[y][x] : null;
+  return (at(c.x - 1, c.y) === enemy && at(c.x + 1, c.y) === enemy) ||
+    (at(c.x, c.y - 1) === enemy && at(c.x, c.y + 1) === enemy);
+};
+
+// One-point jump, knight's move or diagonal from an own stone
+const extendsOwnShape = (board: PlayerColor[][], c: Coordinate, color: PlayerColor): boolean => {
+  const size = board.length;
+  const offsets = [[2, 0], [-2, 0], [0, 2], [0, -2], [1, 1], [1, -1], [-1, 1], [-1, -1],
+    [2, 1], [2, -1], [-2, 1], [-2, -1], [1, 2], [1, -2], [-1, 2], [-1, -2]];
+  return offsets.some(([dx, dy]) => {
+    const x = c.x + dx;
+    const y = c.y + dy;
+    return x >= 0 && x < size && y >= 0 && y < size && board[y][x] === color;
+  });
+};
+
+// Opening: third and fourth lines first, nothing on the first two lines
+const lineBonus = (c: Coordinate, size: number, moveCount: number): number => {
+  const line = Math.min(c.x, c.y, size - 1 - c.x, size - 1 - c.y);
+  const opening = moveCount < size * 2;
+  if (line === 0) return opening ? -25 : -6;
+  if (line === 1) return opening ? -10 : -2;
+  if (line === 2 || line === 3) return opening ? 8 : 2;
+  return 0;
+};
+
+// Heuristic value of playing c for the side to move (EYE_PENALTY for own eyes, null if illegal)
+const scoreCandidate = (state: GameState, c: Coordinate): number | null => {
+  const { board, boardSize: size, currentPlayer: color } = state;
+  if (isEye(board, c, color)) return EYE_PENALTY;
+
+  const result = playMove(state, c.x, c.y);
+  if (!result.success || !result.newState) return null;
+  const next = result.newState.board;
+  const enemy = opponentOf(color);
+  let score = 0;
+
+  // Captures, bigger groups first
+  const captured = color === PlayerColor.Black
+    ? result.newState.capturedWhite - state.capturedWhite
+    : result.newState.capturedBlack - state.capturedBlack;
+  if (captured > 0) score += 100 + captured * 10;
+
+  // Saving an own group from atari
+  const ownGroup = getGroup(next, c);
+  const ownLiberties = countLiberties(next, ownGroup);
+  const rescued = getNeighbors(c, size).filter(n =>
+    board[n.y][n.x] === color && countLiberties(board, getGroup(board, n)) === 1
+  );
+  if (rescued.length > 0 && ownLiberties >= 2) score += 80 + ownGroup.length * 5;
+
+  // Self-atari is almost always a blunder
+  if (ownLiberties === 1 && captured === 0) score -= 60 + ownGroup.length * 5;
+
+  // Putting enemy groups in atari
+  getNeighbors(c, size).forEach(n => {
+    if (next[n.y][n.x] === enemy && countLiberties(next, getGroup(next, n)) === 1) score += 30;
+  });
+
+  // Shape
+  if (formsEmptyTriangle(board, c, color)) score -= 15;
+  if (isCuttingPoint(board, c, color)) score += 10;
+  if (extendsOwnShape(board, c, color)) score += 5;
+  score += lineBonus(c, size, state.moveHistory.length);
+
+  // Answer the opponent's last move locally
+  if (state.lastMove && Math.abs(state.lastMove.x - c.x) + Math.abs(state.lastMove.y - c.y) <= 2) score += 4;
+
+  return score + Math.random() * 2; // Small jitter for variety
+};
+
+// --- Playouts ---
+// Random games run on a bare, mutable board: no move history and no position hashes, which
+// playMove() would copy and recompute on every move. Only simple ko is enforced.
+
+interface PlayoutBoard {
+  size: number;
+  cells: PlayerColor[]; // [y * size + x]
+  toMove: PlayerColor;
+  koPoint: number; // Point the side to move may not retake, -1 for none
+  capturedBlack: number;
+  capturedWhite: number;
+}
+
+// Neighbor and diagonal points of every point, per board size
+const adjacency = new Map<number, { neighbors: number[][]; diagonals: number[][] }>();
+const getAdjacency = (size: number) => {
+  let tables = adjacency.get(size);
+  if (!tables) {
+    const toIndexes = (points: Coordinate[]) => points.map(p => p.y * size + p.x);
+    const points = Array.from({ length: size * size }, (_, i) => ({ x: i % size, y: Math.floor(i / size) }));
+    tables = {
+      neighbors: points.map(p => toIndexes(getNeighbors(p, size))),
+      diagonals: points.map(p => toIndexes(getDiagonals(p, size)))
+    };
+    adjacency.set(size, tables);
+  }
+  return tables;
+};
+
+const toPlayoutBoard = (state: GameState): PlayoutBoard => ({
+  size: state.boardSize,
+  cells: state.board.flat(),
+  toMove: state.currentPlayer,
+  koPoint: state.koPoint ? state.koPoint.y * state.boardSize + state.koPoint.x : -1,
+  capturedBlack: state.capturedBlack,
+  capturedWhite: state.capturedWhite
+});
+
+const copyPlayoutBoard = (board: PlayoutBoard): PlayoutBoard => ({ ...board, cells: board.cells.slice() });
+
+// Same rule as isEye()
+const isPlayoutEye = (board: PlayoutBoard, point: number, color: PlayerColor): boolean => {
+  const { neighbors, diagonals } = getAdjacency(board.size);
+  if (board.cells[point] !== PlayerColor.Empty) return false;
+  if (neighbors[point].some(n => board.cells[n] !== color)) return false;
+  const enemy = opponentOf(color);
+  const enemyDiagonals = diagonals[point].filter(d => board.cells[d] === enemy).length;
+  return diagonals[point].length === 4 ? enemyDiagonals < 2 : enemyDiagonals === 0;
+};
+
+// Stones of the group at `point` and whether it has a liberty
+const playoutGroup = (board: PlayoutBoard, point: number): { stones: number[]; free: boolean } => {
+  const { neighbors } = getAdjacency(board.size);
+  const color = board.cells[point];
+  const stones = [point];
+  const seen = new Set(stones);
+  let free = false;
+  for (let i = 0; i < stones.length; i++) {
+    for (const n of neighbors[stones[i]]) {
+      if (board.cells[n] === PlayerColor.Empty) free = true;
+      else if (board.cells[n] === color && !seen.has(n)) {
+        seen.add(n);
+        stones.push(n);
+      }
+    }
+  }
+  return { stones, free };
+};
+
+// Plays for the side to move in place; false (board unchanged) when illegal
+const playPlayoutMove = (board: PlayoutBoard, point: number): boolean => {
+  if (board.cells[point] !== PlayerColor.Empty || point === board.koPoint) return false;
+  const { neighbors } = getAdjacency(board.size);
+  const color = board.toMove;
+  const enemy = opponentOf(color);
+  board.cells[point] = color;
+
+  const captured: number[] = [];
+  for (const n of neighbors[point]) {
+    if (board.cells[n] !== enemy) continue;
+    const group = playoutGroup(board, n);
+    if (group.free) continue;
+    group.stones.forEach(stone => { board.cells[stone] = PlayerColor.Empty; });
+    captured.push(...group.stones);
+  }
+
+  const own = playoutGroup(board, point);
+  if (!own.free) {
+    board.cells[point] = PlayerColor.Empty; // Suicide
+    return false;
+  }
+
+  if (color === PlayerColor.Black) board.capturedWhite += captured.length;
+  else board.capturedBlack += captured.length;
+  // A single stone that took a single stone and now has one liberty: the capture point is ko
+  const isKo = captured.length === 1 && own.stones.length === 1 &&
+    neighbors[point].filter(n => board.cells[n] === PlayerColor.Empty).length === 1;
+  board.koPoint = isKo ? captured[0] : -1;
+  board.toMove = enemy;
+  return true;
+};
+
+// Plays a random legal move that does not fill an own eye; false when none is left
+const randomPlayoutMove = (board: PlayoutBoard): boolean => {
+  const empty: number[] = [];
+  board.cells.forEach((cell, i) => { if (cell === PlayerColor.Empty) empty.push(i); });
+  // Shuffle lazily: try points in random order until one is legal
+  for (let i = empty.length - 1; i >= 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [empty[i], empty[j]] = [empty[j], empty[i]];
+    if (isPlayoutEye(board, empty[i], board.toMove)) continue;
+    if (playPlayoutMove(board, empty[i])) return true;
+  }
+  return false;
+};
+
+// Plays random moves for a while and tells whether `color` ends up ahead
+const runPlayout = (start: PlayoutBoard, state: GameState, color: PlayerColor): boolean => {
+  const board = copyPlayoutBoard(start);
+  const maxMoves = Math.round(board.size * board.size * 0.6);
+  let passes = 0;
+  for (let i = 0; i < maxMoves && passes < 2; i++) {
+    if (randomPlayoutMove(board)) {
+      passes = 0;
+    } else {
+      board.toMove = opponentOf(board.toMove);
+      board.koPoint = -1;
+      passes++;
+    }
+  }
+  const rows = Array.from({ length: board.size }, (_, y) => board.cells.slice(y * board.size, (y + 1) * board.size));
+  const estimate = estimateScore({ ...state, board: rows, capturedBlack: board.capturedBlack, capturedWhite: board.capturedWhite });
+  return estimate.diff > 0 && estimate.leadColor === color;
+};
+
+const yieldToEventLoop = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+export interface LocalMoveOptions {
+  timeBudget?: number; // ms spent on playouts
+  signal?: AbortSignal; // Checked between batches of playouts
+}
+
+// Best move for the side to move, or 'pass' when nothing useful is left.
+// Playouts run in short batches and hand the thread back in between.
+export const getLocalMove = async (
+  state: GameState,
+  { timeBudget = DEFAULT_TIME_BUDGET, signal }: LocalMoveOptions = {}
+): Promise<Coordinate | 'pass'> => {
+  if (state.isGameOver) return 'pass';
+  const size = state.boardSize;
+  const color = state.currentPlayer;
+
+  const scored: Candidate[] = [];
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (state.board[y][x] !== PlayerColor.Empty) continue;
+      const prior = scoreCandidate(state, { x, y });
+      if (prior !== null && prior > EYE_PENALTY) {
+        scored.push({ coordinate: { x, y }, prior, wins: 0, playouts: 0 });
+      }
+    }
+  }
+  if (scored.length === 0) return 'pass';
+
+  const candidates = scored.sort((a, b) => b.prior - a.prior).slice(0, CANDIDATES);
+
+  // Playouts ignore superko (simple ko is still enforced)
+  const deadline = Date.now() + timeBudget;
+  const afterMove = candidates.map(c => toPlayoutBoard(playMove(state, c.coordinate.x, c.coordinate.y).newState!));
+  let round = 0;
+  while (Date.now() < deadline) {
+    await yieldToEventLoop();
+    signal?.throwIfAborted();
+    const batchEnd = Math.min(deadline, Date.now() + BATCH_MS);
+    do {
+      const i = round++ % candidates.length;
+      if (runPlayout(afterMove[i], state, color)) candidates[i].wins++;
+      candidates[i].playouts++;
+    } while (Date.now() < batchEnd);
+  }
+
+  // Win rate decides, the heuristic breaks ties and keeps urgent tactics on top
+  const value = (c: Candidate) => (c.playouts > 0 ? c.wins / c.playouts : 0.5) + c.prior / 1000;
+  const best = candidates.reduce((a, b) => value(b) > value(a) ? b : a);
+
+  // After the opponent passed, end the game when ahead and nothing urgent is left
+  const previous = state.moveHistory[state.moveHistory.length - 1];
+  if (previous?.type === 'pass' && best.prior < 20) {
+    const estimate = estimateScore(state);
+    if (estimate.leadColor === color) return 'pass';
+  }
+  return best.coordinate;
+};
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+// The queues are module state: every test gets a fresh copy of the module
+let scheduler: typeof import('./requestScheduler');
+
+beforeEach(async () => {
+  vi.useFakeTimers();
+  vi.resetModules();
+  scheduler = await import('./requestScheduler');
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// A task that runs until the test settles it
+const deferred = () => {
+  let resolve!: (value: string) => void;
+  let reject!: (e: unknown) => void;
+  const promise = new Promise<string>((res, rej) => { resolve = res; reject = rej; });
+  return { promise, resolve, reject };
+};
+
+// Wraps a task so the test sees the order in which tasks start
+const track = (started: string[], name: string, run: () => Promise<string>) => () => {
+  started.push(name);
+  return run();
+};
+
+describe('scheduleRequest', () => {
+  it('keeps to the provider concurrency', async () => {
+    const started: string[] = [];
+    const tasks = [deferred(), deferred(), deferred()];
+    const results = tasks.map((t, i) => scheduler.scheduleRequest('gemini', 'analysis', track(started, `a${i}`, () => t.promise)));
+    expect(started).toEqual(['a0', 'a1']); // Gemini: two at a time
+    expect(scheduler.getPendingCount()).toBe(1);
+
+    tasks[0].resolve('done');
+    await expect(results[0]).resolves.toBe('done');
+    expect(started).toEqual(['a0', 'a1', 'a2']);
+    expect(scheduler.getPendingCount()).toBe(0);
+  });
+
+  it('starts waiting moves before waiting analyses', async () => {
+    const started: string[] = [];
+    const running = deferred();
+    const first = scheduler.scheduleRequest('gtp', 'analysis', track(started, 'running', () => running.promise));
+    const analysis = scheduler.scheduleRequest('gtp', 'analysis', track(started, 'analysis', async () => 'a'));
+    const move = scheduler.scheduleRequest('gtp', 'move', track(started, 'move', async () => 'm'));
+
+    running.resolve('r');
+    await Promise.all([first, analysis, move]);
+    expect(started).toEqual(['running', 'move', 'analysis']);
+  });
+
+  it('drops a request aborted while it waits', async () => {
+    const running = deferred();
+    scheduler.scheduleRequest('gtp', 'move', () => running.promise);
+    const controller = new AbortController();
+    const task = vi.fn(async () => 'never');
+    const waiting = scheduler.scheduleRequest('gtp', 'analysis', task, controller.signal);
+    const counts: number[] = [];
+    scheduler.subscribeToQueue(pending => counts.push(pending));
+
+    controller.abort(new Error('cancelled'));
+    await expect(waiting).rejects.toThrow('cancelled');
+    running.resolve('r');
+    await vi.runAllTimersAsync();
+    expect(task).not.toHaveBeenCalled();
+    expect(counts).toEqual([1, 0]);
+  });
+
+  it('rejects at once when the signal is already aborted', async () => {
+    const task = vi.fn(async () => 'never');
+    await expect(scheduler.scheduleRequest('gemini', 'move', task, AbortSignal.abort(new Error('gone')))).rejects.toThrow('gone');
+    expect(task).not.toHaveBeenCalled();
+  });
+
+  it('keeps to the requests-per-minute limit', async () => {
+    const started: string[] = [];
+    const results = Array.from({ length: 16 }, (_, i) => scheduler.scheduleRequest('gemini', 'analysis', track(started, `a${i}`, async () => 'ok')));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toHaveLength(15); // Gemini: 15 per minute
+
+    await vi.advanceTimersByTimeAsync(59_000);
+    expect(started).toHaveLength(15);
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(started).toHaveLength(16);
+    await Promise.all(results);
+  });
+
+  it('holds the provider after a 429 for as long as Retry-After asks', async () => {
+    const started: string[] = [];
+    const limited = scheduler.scheduleRequest('custom', 'analysis', async () => {
+      throw scheduler.createRateLimitError('Too many requests', 5_000);
+    });
+    await expect(limited).rejects.toSatisfy(scheduler.isRateLimitError);
+
+    const next = scheduler.scheduleRequest('custom', 'analysis', track(started, 'next', async () => 'ok'));
+    await vi.advanceTimersByTimeAsync(4_900);
+    expect(started).toEqual([]);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(started).toEqual(['next']);
+    await expect(next).resolves.toBe('ok');
+  });
+
+  it('keeps the queues of different providers apart', async () => {
+    const started: string[] = [];
+    scheduler.scheduleRequest('gtp', 'move', track(started, 'gtp', () => deferred().promise));
+    scheduler.scheduleRequest('local', 'move', track(started, 'local', () => deferred().promise));
+    expect(started).toEqual(['gtp', 'local']);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads seconds and HTTP dates', () => {
+    vi.setSystemTime(new Date('2025-01-01T12:00:00Z')); // HTTP dates have whole seconds
+    expect(scheduler.parseRetryAfter('120')).toBe(120_000);
+    expect(scheduler.parseRetryAfter(new Date(Date.now() + 30_000).toUTCString())).toBe(30_000);
+    expect(scheduler.parseRetryAfter(new Date(Date.now() - 30_000).toUTCString())).toBe(0);
+  });
+
+  it('returns null when there is nothing to read', () => {
+    expect(scheduler.parseRetryAfter(null)).toBeNull();
+    expect(scheduler.parseRetryAfter('soon')).toBeNull();
+  });
+
+  it('falls back to a default wait for a 429 without Retry-After', () => {
+    expect(scheduler.createRateLimitError('Too many requests', null).retryAfter).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,173 @@
+
+import { AIProvider } from '../types';
+
+// Every AI request goes through here: per-provider concurrency and requests-per-minute limits,
+// move generation before analysis, and a pause after a 429 for as long as Retry-After asks.
+
+export type RequestPriority = 'move' | 'analysis';
+
+interface ProviderLimits {
+  concurrency: number; // Requests in flight at once
+  rpm: number; // Requests started per minute, 0 = unlimited
+}
+
+const PROVIDER_LIMITS: Record<AIProvider, ProviderLimits> = {
+  gemini: { concurrency: 2, rpm: 15 },
+  deepseek: { concurrency: 4, rpm: 60 },
+  qwen: { concurrency: 3, rpm: 60 },
+  aihubmix: { concurrency: 3, rpm: 60 },
+  openai: { concurrency: 4, rpm: 60 },
+  anthropic: { concurrency: 2, rpm: 50 },
+  custom: { concurrency: 2, rpm: 0 }, // Self-hosted: the server is the limit
+  gtp: { concurrency: 1, rpm: 0 }, // The bridge runs one command at a time anyway
+  local: { concurrency: 1, rpm: 0 }
+};
+
+const MINUTE = 60_000;
+const DEFAULT_RETRY_AFTER = 10_000; // A 429 without Retry-After
+
+interface QueuedRequest {
+  start: () => void;
+  cancel: (reason: unknown) => void;
+}
+
+interface ProviderQueue {
+  waiting: Record<RequestPriority, QueuedRequest[]>;
+  running: number;
+  started: number[]; // Start times within the last minute
+  pausedUntil: number; // Retry-After
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+const queues = new Map<AIProvider, ProviderQueue>();
+const listeners = new Set<(pending: number) => void>();
+
+const getQueue = (provider: AIProvider): ProviderQueue => {
+  let queue = queues.get(provider);
+  if (!queue) {
+    queue = { waiting: { move: [], analysis: [] }, running: 0, started: [], pausedUntil: 0, timer: null };
+    queues.set(provider, queue);
+  }
+  return queue;
+};
+
+// Requests waiting for a slot, all providers
+export const getPendingCount = (): number => {
+  let pending = 0;
+  queues.forEach(queue => { pending += queue.waiting.move.length + queue.waiting.analysis.length; });
+  return pending;
+};
+
+// Calls `listener` with the number of waiting requests whenever it changes
+export const subscribeToQueue = (listener: (pending: number) => void): (() => void) => {
+  listeners.add(listener);
+  listener(getPendingCount());
+  return () => { listeners.delete(listener); };
+};
+
+let lastPending = 0;
+const notify = () => {
+  const pending = getPendingCount();
+  if (pending === lastPending) return;
+  lastPending = pending;
+  listeners.forEach(listener => listener(pending));
+};
+
+// --- Rate limit errors ---
+
+export interface RateLimitError extends Error {
+  retryAfter: number; // ms
+}
+
+export const isRateLimitError = (e: unknown): e is RateLimitError =>
+  e instanceof Error && e.name === 'RateLimitError';
+
+// Retry-After is either seconds or an HTTP date
+export const parseRetryAfter = (value: string | null | undefined): number | null => {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+export const createRateLimitError = (message: string, retryAfter: number | null): RateLimitError =>
+  Object.assign(new Error(message), { name: 'RateLimitError', retryAfter: retryAfter ?? DEFAULT_RETRY_AFTER });
+
+// --- Dispatch ---
+
+const pump = (provider: AIProvider) => {
+  const queue = getQueue(provider);
+  const limits = PROVIDER_LIMITS[provider];
+  if (queue.timer) {
+    clearTimeout(queue.timer);
+    queue.timer = null;
+  }
+
+  while (queue.running < limits.concurrency) {
+    const next = queue.waiting.move[0] || queue.waiting.analysis[0];
+    if (!next) break;
+
+    const now = Date.now();
+    queue.started = queue.started.filter(t => now - t < MINUTE);
+    let wait = queue.pausedUntil - now;
+    if (limits.rpm > 0 && queue.started.length >= limits.rpm) {
+      wait = Math.max(wait, queue.started[0] + MINUTE - now);
+    }
+    if (wait > 0) {
+      queue.timer = setTimeout(() => pump(provider), wait);
+      break;
+    }
+
+    (queue.waiting.move[0] === next ? queue.waiting.move : queue.waiting.analysis).shift();
+    queue.started.push(now);
+    queue.running++;
+    next.start();
+  }
+  notify();
+};
+
+// Runs `task` once the provider has a free slot. Aborting while queued drops the request.
+export const scheduleRequest = <T>(
+  provider: AIProvider,
+  priority: RequestPriority,
+  task: () => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> => new Promise<T>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(signal.reason);
+    return;
+  }
+  const queue = getQueue(provider);
+
+  const onAbort = () => request.cancel(signal!.reason);
+  const request: QueuedRequest = {
+    start: () => {
+      signal?.removeEventListener('abort', onAbort);
+      task()
+        .then(resolve, (e) => {
+          if (isRateLimitError(e)) {
+            // Hold every request to this provider until the server is ready again
+            queue.pausedUntil = Math.max(queue.pausedUntil, Date.now() + e.retryAfter);
+          }
+          reject(e);
+        })
+        .finally(() => {
+          queue.running--;
+          pump(provider);
+        });
+    },
+    cancel: (reason) => {
+      const waiting = queue.waiting[priority];
+      const index = waiting.indexOf(request);
+      if (index < 0) return;
+      waiting.splice(index, 1);
+      reject(reason);
+      notify();
+    }
+  };
+
+  signal?.addEventListener('abort', onAbort, { once: true });
+  queue.waiting[priority].push(request);
+  pump(provider);
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { validateMoveAnalysis, validateMoveResponse, createInvalidResponseError, isInvalidResponseError } from './responseValidator';
+
+const VALID = {
+  evaluation: '好棋',
+  score: 82.4,
+  title: 'Taking the corner',
+  detailedAnalysis: 'A solid move.',
+  strategicContext: '',
+  josekiOrProverbs: ['Corners first'],
+  territoryChange: 4,
+  variations: [{ move: 'E5', sequence: ['C3', 'pass', 'D4'], explanation: 'Bigger', score: 90 }],
+};
+
+describe('validateMoveAnalysis', () => {
+  it('accepts a well-formed reply and normalizes it', () => {
+    const { value, errors } = validateMoveAnalysis(VALID, 9);
+    expect(errors).toEqual([]);
+    expect(value).toMatchObject({ evaluation: '好棋', score: 82, territoryChange: 4 });
+    // Human coordinates become points, the continuation stops at the pass
+    expect(value!.variations).toEqual([{ move: { x: 4, y: 4 }, sequence: [{ x: 2, y: 6 }], explanation: 'Bigger', score: 90 }]);
+  });
+
+  it('accepts {x, y} points and missing optional lists', () => {
+    const { value } = validateMoveAnalysis({ ...VALID, josekiOrProverbs: undefined, variations: [{ move: { x: 0, y: 8 }, explanation: 'Edge', score: 40 }] }, 9);
+    expect(value!.josekiOrProverbs).toEqual([]);
+    expect(value!.variations[0]).toEqual({ move: { x: 0, y: 8 }, sequence: [], explanation: 'Edge', score: 40 });
+  });
+
+  it('reports every problem at once', () => {
+    const { value, errors } = validateMoveAnalysis({
+      ...VALID,
+      evaluation: 'excellent',
+      score: 120,
+      title: '',
+      territoryChange: '4',
+      variations: [{ move: 'Z9', explanation: 'Off the board', score: 50 }],
+    }, 9);
+    expect(value).toBeNull();
+    expect(errors).toHaveLength(5);
+    expect(errors[0]).toMatch(/^evaluation must be one of/);
+    expect(errors).toContain('score must be between 0 and 100, got 120');
+    expect(errors).toContain('title must be a non-empty string');
+    expect(errors).toContain('territoryChange must be a number');
+    expect(errors).toContain('variations[0].move "Z9" is not a point on the 9x9 board');
+  });
+
+  it('checks points against the board size', () => {
+    const { errors } = validateMoveAnalysis({ ...VALID, variations: [{ move: { x: 9, y: 0 }, explanation: 'Off', score: 10 }] }, 9);
+    expect(errors).toEqual(['variations[0].move (9,0) is off the 9x9 board: x and y must be 0-8']);
+  });
+
+  it('rejects anything but an object', () => {
+    expect(validateMoveAnalysis([VALID], 9).errors).toEqual(['The reply must be a single JSON object']);
+    expect(validateMoveAnalysis(null, 9).value).toBeNull();
+  });
+});
+
+describe('validateMoveResponse', () => {
+  it('accepts points, pass and resign', () => {
+    expect(validateMoveResponse({ move: 'D4' }, 19).value).toEqual({ x: 3, y: 15 });
+    expect(validateMoveResponse({ move: ' Pass ' }, 19).value).toBe('pass');
+    expect(validateMoveResponse({ move: 'resign' }, 19).value).toBe('resign');
+    expect(validateMoveResponse({ x: 3, y: 3 }, 19).value).toEqual({ x: 3, y: 3 });
+  });
+
+  it('explains what is wrong', () => {
+    expect(validateMoveResponse({ move: 'T20' }, 19).errors).toEqual(['move "T20" is not a point on the 19x19 board, "pass" or "resign"']);
+    expect(validateMoveResponse({ x: 20, y: 0 }, 19).errors).toEqual(['move (20,0) is off the 19x19 board: x and y must be 0-18']);
+    expect(validateMoveResponse({}, 19).errors).toEqual(['move must be a string such as "D4", "pass" or "resign"']);
+  });
+});
+
+describe('InvalidResponseError', () => {
+  it('carries the errors and the tokens spent', () => {
+    const error = createInvalidResponseError(['score must be a number'], 120);
+    expect(isInvalidResponseError(error)).toBe(true);
+    expect(error).toMatchObject({ errors: ['score must be a number'], usage: 120 });
+    expect(isInvalidResponseError(new Error('other'))).toBe(false);
+  });
+});
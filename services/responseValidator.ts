@@ -0,0 +1,163 @@
+
+import { Coordinate, MoveAnalysis, Variation } from '../types';
+import { fromHumanCoordinate } from './coordinates';
+import { EVALUATION_LABELS, normalizeEvaluation } from './evaluationGrades';
+
+// Runtime checks for the JSON the models send back. Errors are plain English sentences:
+// they go back to the model in the repair request and are shown in the panel.
+
+// value is null exactly when there are errors
+export interface Validation<T> {
+  value: T | null;
+  errors: string[];
+}
+
+// Thrown when a reply is still invalid after the repair request
+export interface InvalidResponseError extends Error {
+  errors: string[];
+  usage: number; // Tokens spent on the invalid replies
+}
+
+export const createInvalidResponseError = (errors: string[], usage: number): InvalidResponseError =>
+  Object.assign(new Error(`Invalid AI response: ${errors.join('; ')}`), { name: 'InvalidResponseError', errors, usage });
+
+export const isInvalidResponseError = (e: unknown): e is InvalidResponseError =>
+  e instanceof Error && e.name === 'InvalidResponseError';
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Human coordinates ("D4") are what the prompts ask for; {x, y} objects are still accepted
+const checkCoordinate = (value: unknown, size: number, field: string, errors: string[]): Coordinate | null => {
+  if (typeof value === 'string') {
+    const coordinate = fromHumanCoordinate(value.trim(), size);
+    if (!coordinate) errors.push(`${field} "${value}" is not a point on the ${size}x${size} board`);
+    return coordinate;
+  }
+  if (!isObject(value) || !Number.isInteger(value.x) || !Number.isInteger(value.y)) {
+    errors.push(`${field} must be a point such as "D4"`);
+    return null;
+  }
+  const { x, y } = value as { x: number; y: number };
+  if (x < 0 || x >= size || y < 0 || y >= size) {
+    errors.push(`${field} (${x},${y}) is off the ${size}x${size} board: x and y must be 0-${size - 1}`);
+    return null;
+  }
+  return { x, y };
+};
+
+const checkScore = (value: unknown, field: string, errors: string[]): number | null => {
+  if (!isNumber(value)) {
+    errors.push(`${field} must be a number`);
+    return null;
+  }
+  if (value < 0 || value > 100) {
+    errors.push(`${field} must be between 0 and 100, got ${value}`);
+    return null;
+  }
+  return Math.round(value);
+};
+
+const checkText = (value: unknown, field: string, errors: string[], allowEmpty = false): string | null => {
+  if (typeof value !== 'string' || (!allowEmpty && value.trim() === '')) {
+    errors.push(`${field} must be a ${allowEmpty ? '' : 'non-empty '}string`);
+    return null;
+  }
+  return value;
+};
+
+// Optional continuation of a variation; a "pass" ends it. Legality is checked later against the position.
+const checkSequence = (value: unknown, size: number, field: string, errors: string[]): Coordinate[] | null => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    errors.push(`${field} must be an array of points such as ["E5", "C3"]`);
+    return null;
+  }
+  const passAt = value.findIndex(m => typeof m === 'string' && m.trim().toLowerCase() === 'pass');
+  const moves = passAt < 0 ? value : value.slice(0, passAt);
+  const coordinates = moves.map((m, i) => checkCoordinate(m, size, `${field}[${i}]`, errors));
+  return coordinates.every(c => c !== null) ? coordinates : null;
+};
+
+export const validateMoveAnalysis = (raw: unknown, boardSize: number): Validation<MoveAnalysis> => {
+  if (!isObject(raw)) return { value: null, errors: ['The reply must be a single JSON object'] };
+  const errors: string[] = [];
+
+  const evaluation = typeof raw.evaluation === 'string' ? normalizeEvaluation(raw.evaluation) : null;
+  if (!evaluation) {
+    errors.push(`evaluation must be one of ${EVALUATION_LABELS.map(e => `"${e}"`).join(', ')}, got ${JSON.stringify(raw.evaluation)}`);
+  }
+  const score = checkScore(raw.score, 'score', errors);
+  const title = checkText(raw.title, 'title', errors);
+  const detailedAnalysis = checkText(raw.detailedAnalysis, 'detailedAnalysis', errors);
+  const strategicContext = checkText(raw.strategicContext, 'strategicContext', errors, true);
+  if (!isNumber(raw.territoryChange)) errors.push('territoryChange must be a number');
+
+  // Optional lists: missing means none, but what is there has to be well-formed
+  let josekiOrProverbs: string[] = [];
+  if (raw.josekiOrProverbs !== undefined) {
+    if (!Array.isArray(raw.josekiOrProverbs) || raw.josekiOrProverbs.some(p => typeof p !== 'string')) {
+      errors.push('josekiOrProverbs must be an array of strings');
+    } else {
+      josekiOrProverbs = raw.josekiOrProverbs;
+    }
+  }
+
+  const variations: Variation[] = [];
+  if (raw.variations !== undefined) {
+    if (!Array.isArray(raw.variations)) {
+      errors.push('variations must be an array');
+    } else {
+      raw.variations.forEach((v, i) => {
+        const field = `variations[${i}]`;
+        if (!isObject(v)) {
+          errors.push(`${field} must be an object {move, sequence, explanation, score}`);
+          return;
+        }
+        const move = checkCoordinate(v.move, boardSize, `${field}.move`, errors);
+        const explanation = checkText(v.explanation, `${field}.explanation`, errors);
+        const variationScore = checkScore(v.score, `${field}.score`, errors);
+        const sequence = checkSequence(v.sequence, boardSize, `${field}.sequence`, errors);
+        if (move && explanation !== null && variationScore !== null && sequence) {
+          variations.push({ move, sequence, explanation, score: variationScore });
+        }
+      });
+    }
+  }
+
+  if (errors.length > 0) return { value: null, errors };
+  return {
+    errors,
+    value: {
+      evaluation: evaluation!,
+      score: score!,
+      title: title!,
+      detailedAnalysis: detailedAnalysis!,
+      strategicContext: strategicContext!,
+      josekiOrProverbs,
+      territoryChange: raw.territoryChange as number,
+      variations
+    }
+  };
+};
+
+// { "move": "D4" | "pass" | "resign" }, or the legacy { x, y }
+export const validateMoveResponse = (raw: unknown, boardSize: number): Validation<Coordinate | 'pass' | 'resign'> => {
+  if (!isObject(raw)) return { value: null, errors: ['The reply must be a single JSON object'] };
+
+  if (typeof raw.move === 'string') {
+    const keyword = raw.move.trim().toLowerCase();
+    if (keyword === 'pass' || keyword === 'resign') return { value: keyword, errors: [] };
+    const coordinate = fromHumanCoordinate(raw.move.trim(), boardSize);
+    if (coordinate) return { value: coordinate, errors: [] };
+    return { value: null, errors: [`move "${raw.move}" is not a point on the ${boardSize}x${boardSize} board, "pass" or "resign"`] };
+  }
+  if ('x' in raw || 'y' in raw) {
+    const errors: string[] = [];
+    const coordinate = checkCoordinate(raw, boardSize, 'move', errors);
+    return { value: coordinate, errors };
+  }
+  return { value: null, errors: ['move must be a string such as "D4", "pass" or "resign"'] };
+};
@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import { AnalysisHistoryItem, Coordinate, GameTree, MoveAnalysis, PlayerColor, Variation } from '../types';
+import { parseSGF, importSGF, parseSGFResult, exportSGF, ImportedMove } from './sgfService';
+import { getLineEnd } from './gameTree';
+
+const RECORD = `(;GM[1]FF[4]SZ[9]KM[6.5]PB[Black \\] player]PW[White]RE[W+2.5]
+;B[cc]C[First move]
+;W[gg]
+(;B[cg];W[gc])
+(;B[gc]))`;
+
+describe('parseSGF', () => {
+  it('reads properties, escapes and variations', () => {
+    const root = parseSGF(RECORD);
+    expect(root.properties.PB).toEqual(['Black ] player']);
+    const second = root.children[0].children[0];
+    expect(second.properties.W).toEqual(['gg']);
+    expect(second.children.map(child => child.properties.B)).toEqual([['cg'], ['gc']]);
+  });
+
+  it('rejects unterminated values', () => {
+    expect(() => parseSGF('(;B[cc')).toThrow('Unterminated property value');
+  });
+});
+
+describe('parseSGFResult', () => {
+  it.each([
+    ['B+R', { winner: PlayerColor.Black, reason: 'resign' }],
+    ['W+2.5', { winner: PlayerColor.White, reason: 'score', margin: 2.5 }],
+    ['0', { winner: null, reason: 'score', margin: 0 }],
+    ['Void', null],
+  ])('parses %s', (text, result) => {
+    expect(parseSGFResult(text)).toEqual(result);
+  });
+});
+
+describe('importSGF', () => {
+  it('replays the main line and keeps the variations', () => {
+    const { info, tree, mainLineEndId, moves } = importSGF(RECORD);
+    expect(info).toMatchObject({ boardSize: 9, komi: 6.5, blackPlayer: 'Black ] player', whitePlayer: 'White' });
+    expect(info.result).toEqual({ winner: PlayerColor.White, reason: 'score', margin: 2.5 });
+
+    const end = tree.nodes[mainLineEndId];
+    expect(end.state.moveHistory.map(m => m.coordinate)).toEqual([{ x: 2, y: 2 }, { x: 6, y: 6 }, { x: 2, y: 6 }, { x: 6, y: 2 }]);
+    expect(end.state.isGameOver).toBe(true);
+    expect(moves).toHaveLength(5);
+    expect(moves[0].comment).toBe('First move');
+
+    const branchPoint = tree.nodes[end.parentId!].parentId!;
+    expect(tree.nodes[branchPoint].children).toHaveLength(2);
+  });
+
+  it('reads setup stones and the side to move', () => {
+    const { tree } = importSGF('(;SZ[9]AB[cc][gg]AW[cg]PL[W];W[gc])');
+    const root = tree.nodes[tree.rootId].state;
+    expect(root.setupStones).toEqual({ black: [{ x: 2, y: 2 }, { x: 6, y: 6 }], white: [{ x: 2, y: 6 }] });
+    expect(root.currentPlayer).toBe(PlayerColor.White);
+    expect(getLineEnd(tree, tree.rootId).state.board[2][6]).toBe(PlayerColor.White);
+  });
+
+  it('imports empty values and tt as passes', () => {
+    const { moves } = importSGF('(;SZ[19];B[pd];W[];B[dd];W[tt])');
+    expect(moves.map(m => m.coordinate)).toEqual([{ x: 15, y: 3 }, null, { x: 3, y: 3 }, null]);
+  });
+
+  it('rejects malformed coordinates on the main line', () => {
+    expect(() => importSGF('(;SZ[9];B[cc];W[zz])')).toThrow('Move 2: Invalid move W[zz]');
+  });
+
+  it('cuts a variation at a malformed coordinate', () => {
+    const { moves } = importSGF('(;SZ[9];B[cc](;W[gg])(;W[zz]))');
+    expect(moves.map(m => m.coordinate)).toEqual([{ x: 2, y: 2 }, { x: 6, y: 6 }]);
+  });
+
+  it('rejects illegal moves on the main line', () => {
+    expect(() => importSGF('(;SZ[9];B[cc];W[cc])')).toThrow(/Move 2 \(C7\) is illegal/);
+  });
+
+  it('only accepts the supported board sizes', () => {
+    expect(() => importSGF('(;SZ[7];B[cc])')).toThrow('Unsupported board size: 7');
+    expect(() => importSGF('(;SZ[19:13];B[cc])')).toThrow('Rectangular boards are not supported');
+    expect(importSGF('(;SZ[13];B[cc])').info.boardSize).toBe(13);
+  });
+});
+
+describe('exportSGF', () => {
+  const analysis = (variations: Variation[]): MoveAnalysis => ({
+    evaluation: '好棋',
+    score: 85,
+    title: 'Corner',
+    detailedAnalysis: 'Takes the corner',
+    strategicContext: '',
+    territoryChange: 3,
+    variations,
+  });
+  const suggest = (x: number, y: number, sequence: Coordinate[] = []): Variation => ({ move: { x, y }, sequence, explanation: 'Better', score: 90 });
+
+  // The imported moves as the app keeps them: unanalyzed, with their comments
+  const unanalyzed = (moves: ImportedMove[]): AnalysisHistoryItem[] => moves.map(m => ({
+    nodeId: m.nodeId,
+    moveNumber: m.moveNumber,
+    player: m.player,
+    coordinate: m.coordinate ?? { x: -1, y: -1 },
+    analysis: analysis([]),
+    isUnanalyzed: true,
+    comment: m.comment,
+  }));
+
+  // Every line of the tree as move lists, main line first
+  const lines = (tree: GameTree, nodeId = tree.rootId): string[][] => {
+    const node = tree.nodes[nodeId];
+    const move = node.move ? [`${node.move.player}${node.move.coordinate ? `${node.move.coordinate.x},${node.move.coordinate.y}` : 'pass'}`] : [];
+    if (node.children.length === 0) return [move];
+    return node.children.flatMap(id => lines(tree, id).map(line => [...move, ...line]));
+  };
+
+  it('round-trips the tree, the game info and the comments', () => {
+    const imported = importSGF(RECORD);
+    const sgf = exportSGF(imported.tree, unanalyzed(imported.moves), {
+      blackPlayer: imported.info.blackPlayer,
+      whitePlayer: imported.info.whitePlayer,
+      result: imported.info.result,
+    });
+    const again = importSGF(sgf);
+
+    expect(lines(again.tree)).toEqual(lines(imported.tree));
+    expect(again.info).toMatchObject({ boardSize: 9, komi: 6.5, blackPlayer: 'Black ] player', whitePlayer: 'White', result: imported.info.result });
+    expect(again.moves[0].comment).toBe('First move');
+  });
+
+  it('keeps setup stones and passes', () => {
+    const imported = importSGF('(;SZ[9]AB[cc][gg]AW[cg]PL[W];W[gc];B[])');
+    const again = importSGF(exportSGF(imported.tree, []));
+    expect(again.tree.nodes[again.tree.rootId].state.setupStones).toEqual(imported.tree.nodes[imported.tree.rootId].state.setupStones);
+    expect(lines(again.tree)).toEqual([['W6,2', 'Bpass']]);
+  });
+
+  it('writes the commentary, the quality mark and the suggestions as variations', () => {
+    const imported = importSGF('(;SZ[9];B[cc])');
+    const items = [{ ...unanalyzed(imported.moves)[0], isUnanalyzed: false, analysis: analysis([suggest(6, 6, [{ x: 2, y: 6 }])]) }];
+    const sgf = exportSGF(imported.tree, items);
+
+    expect(sgf).toContain(`;B[cc]TE[1]C[`);
+    expect(sgf).toContain('Takes the corner');
+    expect(sgf).toContain(';B[gg]C[推荐 1 (90分): Better];W[cg]');
+    expect(importSGF(sgf).moves.filter(m => m.moveNumber === 1)).toHaveLength(2);
+  });
+
+  it('skips suggestions that repeat a sibling move', () => {
+    const imported = importSGF('(;SZ[9](;B[cc])(;B[gg]))');
+    const [first, second] = unanalyzed(imported.moves);
+    const items = [
+      { ...first, isUnanalyzed: false, analysis: analysis([suggest(6, 6), suggest(4, 4), suggest(4, 4)]) },
+      { ...second, isUnanalyzed: false, analysis: analysis([suggest(4, 4), suggest(2, 2), suggest(3, 3)]) },
+    ];
+    const again = importSGF(exportSGF(imported.tree, items));
+    expect(lines(again.tree)).toEqual([['B2,2'], ['B6,6'], ['B4,4'], ['B3,3']]);
+  });
+});
@@ -0,0 +1,385 @@
+
+import { PlayerColor, GameState, Coordinate, Move, GameResult, AnalysisHistoryItem, MoveAnalysis, GameTree, GameTreeNode, EvaluationKey } from '../types';
+import { createSetupState, playMove, passMove, formatResult, KOMI } from './goGame';
+import { createGameTree, createNodeId, addNode, updateNodeState, getLineEnd } from './gameTree';
+import { fromSGFCoordinate, toHumanCoordinate, toSGFCoordinate, SUPPORTED_BOARD_SIZES } from './coordinates';
+import { getGrade } from './evaluationGrades';
+
+// --- Parsed SGF tree ---
+export interface SGFNode {
+  properties: Record<string, string[]>; // e.g. { B: ['pd'], C: ['Nice move'] }
+  children: SGFNode[]; // children[0] is the main line, the rest are variations
+}
+
+export interface SGFGameInfo {
+  boardSize: number;
+  komi: number;
+  handicap: number;
+  blackPlayer?: string;
+  whitePlayer?: string;
+  result: GameResult | null; // null when RE is missing or not a win/jigo (e.g. "Void", "B+T")
+  resultText?: string; // RE as written in the file
+  gameName?: string;
+  date?: string;
+  comment?: string; // Comments before the first move
+}
+
+// A move of an imported record, on the main line or in a variation
+export interface ImportedMove {
+  nodeId: string;
+  moveNumber: number; // 1-based
+  player: PlayerColor;
+  coordinate: Coordinate | null; // null for a pass
+  comment?: string;
+}
+
+export interface ImportedGame {
+  info: SGFGameInfo;
+  tree: GameTree;
+  mainLineEndId: string; // Last node of the main line
+  moves: ImportedMove[];
+}
+
+// Parses the first game tree of an SGF collection (FF[4], tolerant of FF[3] long property names)
+export const parseSGF = (text: string): SGFNode => {
+  let pos = text.indexOf('(');
+  if (pos === -1) throw new Error('No SGF game tree found');
+
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+
+  const parseValue = (): string => {
+    pos++; // '['
+    let value = '';
+    while (pos < text.length && text[pos] !== ']') {
+      if (text[pos] === '\\') {
+        pos++;
+        // Escaped line break is a soft line break: drop it
+        if (text[pos] === '\r' || text[pos] === '\n') {
+          const next = text[pos + 1];
+          pos += (next === '\r' || next === '\n') && next !== text[pos] ? 2 : 1;
+          continue;
+        }
+      }
+      value += text[pos];
+      pos++;
+    }
+    if (pos >= text.length) throw new Error('Unterminated property value');
+    pos++; // ']'
+    return value;
+  };
+
+  const parseNode = (): SGFNode => {
+    pos++; // ';'
+    const node: SGFNode = { properties: {}, children: [] };
+    skipWhitespace();
+    while (pos < text.length && /[A-Za-z]/.test(text[pos])) {
+      let ident = '';
+      while (pos < text.length && /[A-Za-z]/.test(text[pos])) ident += text[pos++];
+      ident = ident.replace(/[a-z]/g, ''); // "AddBlack" -> "AB"
+      skipWhitespace();
+
+      const values: string[] = [];
+      while (text[pos] === '[') {
+        values.push(parseValue());
+        skipWhitespace();
+      }
+      if (values.length === 0) throw new Error(`Property ${ident} has no value`);
+      node.properties[ident] = [...(node.properties[ident] || []), ...values];
+    }
+    return node;
+  };
+
+  const parseGameTree = (): SGFNode => {
+    pos++; // '('
+    skipWhitespace();
+    if (text[pos] !== ';') throw new Error('Game tree has no nodes');
+
+    const root = parseNode();
+    let last = root;
+    skipWhitespace();
+    while (text[pos] === ';') {
+      const node = parseNode();
+      last.children.push(node);
+      last = node;
+      skipWhitespace();
+    }
+    while (text[pos] === '(') {
+      last.children.push(parseGameTree());
+      skipWhitespace();
+    }
+    if (text[pos] !== ')') throw new Error(`Unexpected character at position ${pos}`);
+    pos++; // ')'
+    return root;
+  };
+
+  return parseGameTree();
+};
+
+const getProp = (node: SGFNode, ident: string): string | undefined => node.properties[ident]?.[0];
+
+// Point lists may use the compressed "aa:cc" rectangle form
+const parsePointList = (values: string[] | undefined, size: number): Coordinate[] => {
+  const points: Coordinate[] = [];
+  (values || []).forEach(value => {
+    const [from, to] = value.split(':');
+    const a = fromSGFCoordinate(from, size);
+    const b = to ? fromSGFCoordinate(to, size) : a;
+    if (!a || !b) return;
+    for (let y = Math.min(a.y, b.y); y <= Math.max(a.y, b.y); y++) {
+      for (let x = Math.min(a.x, b.x); x <= Math.max(a.x, b.x); x++) {
+        points.push({ x, y });
+      }
+    }
+  });
+  return points;
+};
+
+// "B+R", "W+6.5", "0" / "Draw"; anything else is kept only as text
+export const parseSGFResult = (re: string | undefined): GameResult | null => {
+  if (!re) return null;
+  const text = re.trim();
+  if (/^(0|Draw|Jigo)$/i.test(text)) return { winner: null, reason: 'score', margin: 0 };
+
+  const match = text.match(/^([BW])\+(.*)$/i);
+  if (!match) return null;
+  const winner = match[1].toUpperCase() === 'B' ? PlayerColor.Black : PlayerColor.White;
+  if (/^R(esign)?$/i.test(match[2])) return { winner, reason: 'resign' };
+
+  const margin = parseFloat(match[2]);
+  return isNaN(margin) ? null : { winner, reason: 'score', margin };
+};
+
+// B[] / W[] is a pass, and so is B[tt] on boards up to 19x19 (FF[3]); any other value must be a point
+const getMove = (node: SGFNode, size: number): Move | null => {
+  for (const player of [PlayerColor.Black, PlayerColor.White]) {
+    const value = getProp(node, player);
+    if (value === undefined) continue;
+    if (value === '' || (value === 'tt' && size <= 19)) return { player, type: 'pass', coordinate: null };
+    const coordinate = fromSGFCoordinate(value, size);
+    if (!coordinate) throw new Error(`Invalid move ${player}[${value}]`);
+    return { player, type: 'play', coordinate };
+  }
+  return null;
+};
+
+const hasSetup = (node: SGFNode) => ['AB', 'AW', 'AE'].some(ident => node.properties[ident]);
+
+// Parses an SGF file and replays every line through the rules engine into a game tree
+export const importSGF = (text: string): ImportedGame => {
+  const root = parseSGF(text);
+
+  const [sizeText, heightText] = (getProp(root, 'SZ') || '19').split(':');
+  const size = parseInt(sizeText, 10);
+  if (!SUPPORTED_BOARD_SIZES.includes(size)) {
+    throw new Error(`Unsupported board size: ${sizeText} (supported: ${SUPPORTED_BOARD_SIZES.join(', ')})`);
+  }
+  if (heightText && parseInt(heightText, 10) !== size) throw new Error('Rectangular boards are not supported');
+
+  const komiText = getProp(root, 'KM');
+  const komi = komiText !== undefined && !isNaN(parseFloat(komiText)) ? parseFloat(komiText) : KOMI;
+  const handicap = parseInt(getProp(root, 'HA') || '0', 10) || 0;
+
+  const info: SGFGameInfo = {
+    boardSize: size,
+    komi,
+    handicap,
+    blackPlayer: getProp(root, 'PB'),
+    whitePlayer: getProp(root, 'PW'),
+    result: parseSGFResult(getProp(root, 'RE')),
+    resultText: getProp(root, 'RE'),
+    gameName: getProp(root, 'GN'),
+    date: getProp(root, 'DT'),
+  };
+
+  // Setup stones and side to move, from the nodes before the first move
+  let black: Coordinate[] = [];
+  let white: Coordinate[] = [];
+  let firstPlayer = handicap > 0 ? PlayerColor.White : PlayerColor.Black;
+  const comments: string[] = [];
+  let setupEnd: SGFNode | null = null; // Last node before the first move
+  let node = root;
+  while (!getMove(node, size)) {
+    const removed = parsePointList(node.properties.AE, size);
+    const keep = (c: Coordinate) => !removed.some(r => r.x === c.x && r.y === c.y);
+    black = [...black.filter(keep), ...parsePointList(node.properties.AB, size)];
+    white = [...white.filter(keep), ...parsePointList(node.properties.AW, size)];
+
+    const pl = getProp(node, 'PL');
+    if (pl) firstPlayer = pl.toUpperCase().startsWith('W') ? PlayerColor.White : PlayerColor.Black;
+    const comment = getProp(node, 'C');
+    if (comment) comments.push(comment);
+
+    setupEnd = node;
+    if (node.children.length !== 1) break;
+    node = node.children[0];
+  }
+  if (comments.length > 0) info.comment = comments.join('\n');
+
+  let tree = createGameTree(createSetupState(size, { koRule: 'simple', handicap, komi }, black, white, firstPlayer));
+  const moves: ImportedMove[] = [];
+
+  // Depth-first replay. The main line must be legal; an illegal variation is cut off there.
+  const replay = (sgfNode: SGFNode, parent: GameTreeNode, isMainLine: boolean) => {
+    const moveNumber = parent.state.moveHistory.length + 1;
+    let move: Move | null;
+    try {
+      move = getMove(sgfNode, size);
+    } catch (e: any) {
+      if (isMainLine) throw new Error(`Move ${moveNumber}: ${e.message}`);
+      console.warn(`SGF variation cut at move ${moveNumber}: ${e.message}`);
+      return;
+    }
+    let node = parent;
+    if (move) {
+      if (hasSetup(sgfNode)) {
+        if (isMainLine) throw new Error(`Setup stones at move ${moveNumber} are not supported`);
+        return;
+      }
+
+      // SGF allows the same color to move twice (e.g. after a pass that was left out)
+      const before: GameState = { ...parent.state, currentPlayer: move.player };
+      const result = move.coordinate
+        ? playMove(before, move.coordinate.x, move.coordinate.y)
+        : passMove(before);
+      if (!result.success || !result.newState) {
+        const where = move.coordinate ? toHumanCoordinate(move.coordinate, size) : 'pass';
+        if (isMainLine) throw new Error(`Move ${moveNumber} (${where}) is illegal: ${result.error}`);
+        console.warn(`SGF variation cut at move ${moveNumber} (${where}): ${result.error}`);
+        return;
+      }
+
+      const nodeId = createNodeId();
+      tree = addNode(tree, parent.id, nodeId, result.newState);
+      node = tree.nodes[nodeId];
+      moves.push({ nodeId, moveNumber, player: move.player, coordinate: move.coordinate, comment: getProp(sgfNode, 'C') });
+    }
+    sgfNode.children.forEach((child, i) => replay(child, node, isMainLine && i === 0));
+  };
+  const firstMoves = setupEnd ? setupEnd.children : [root];
+  firstMoves.forEach((child, i) => replay(child, tree.nodes[tree.rootId], i === 0));
+
+  // A recorded result closes the game, otherwise it can be continued
+  const mainLineEnd = getLineEnd(tree, tree.rootId);
+  if (info.result) {
+    tree = updateNodeState(tree, mainLineEnd.id, { ...mainLineEnd.state, isGameOver: true, result: info.result });
+  }
+
+  return { info, tree, mainLineEndId: mainLineEnd.id, moves };
+};
+
+// --- Export ---
+export interface SGFExportInfo {
+  blackPlayer?: string;
+  whitePlayer?: string;
+  analysisModel?: string; // Provider/model that wrote the commentary
+  result?: GameResult | null;
+  date?: Date;
+}
+
+// Text values escape "]" and "\"
+const escapeText = (text: string) => text.replace(/\\/g, '\\\\').replace(/]/g, '\\]');
+
+const prop = (ident: string, value: string) => `${ident}[${escapeText(value)}]`;
+
+const moveProp = (move: Move, size: number) =>
+  `${move.player}[${move.coordinate ? toSGFCoordinate(move.coordinate, size) : ''}]`;
+
+// Move quality as SGF annotations: TE = tesuji, DO = doubtful, BM = bad move
+const EVALUATION_MARKS: Record<EvaluationKey, string> = {
+  brilliant: 'TE[2]',
+  good: 'TE[1]',
+  normal: '',
+  slow: 'DO[]',
+  questionable: 'BM[1]',
+  regrettable: 'BM[2]',
+};
+
+const hasAnalysis = (item: AnalysisHistoryItem | undefined): item is AnalysisHistoryItem =>
+  !!item && !item.isLoading && !item.isQueued && !item.isUnanalyzed && !item.isInvalid && !item.isFailed;
+
+const formatAnalysisComment = (analysis: MoveAnalysis): string => {
+  const lines = [
+    `${analysis.evaluation} (${analysis.score}/100) - ${analysis.title}`,
+    analysis.detailedAnalysis,
+  ];
+  if (analysis.strategicContext) lines.push(analysis.strategicContext);
+  if (analysis.josekiOrProverbs && analysis.josekiOrProverbs.length > 0) {
+    lines.push(analysis.josekiOrProverbs.join(' / '));
+  }
+  return lines.join('\n\n');
+};
+
+const formatDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Writes the whole game tree as SGF: AI commentary in C[], quality marks, and
+// recommended moves as extra variations next to the move they replace
+export const exportSGF = (tree: GameTree, analysisHistory: AnalysisHistoryItem[], info: SGFExportInfo = {}): string => {
+  const rootState = tree.nodes[tree.rootId].state;
+  const size = rootState.boardSize;
+  const items = new Map(analysisHistory.map(item => [item.nodeId, item]));
+
+  let root = `;GM[1]FF[4]CA[UTF-8]AP[ZenGo:1.0]SZ[${size}]KM[${rootState.komi}]`;
+  if (rootState.handicap > 0) root += `HA[${rootState.handicap}]`;
+  const { black, white } = rootState.setupStones;
+  if (black.length > 0) root += `AB${black.map(c => `[${toSGFCoordinate(c, size)}]`).join('')}`;
+  if (white.length > 0) root += `AW${white.map(c => `[${toSGFCoordinate(c, size)}]`).join('')}`;
+  if (info.blackPlayer) root += prop('PB', info.blackPlayer);
+  if (info.whitePlayer) root += prop('PW', info.whitePlayer);
+  if (info.result) root += `RE[${formatResult(info.result)}]`;
+  root += `DT[${formatDate(info.date || new Date())}]`;
+  if (info.analysisModel) root += prop('GC', `Commentary: ${info.analysisModel}`);
+
+  // The AI's suggestions for a move, as variations with their continuation.
+  // `siblings` holds the moves (e.g. "B[dd]") already written at this point; each suggestion adds its own.
+  const renderRecommendations = (node: GameTreeNode, siblings: Set<string>): string[] => {
+    const item = items.get(node.id);
+    if (!node.move || !hasAnalysis(item)) return [];
+    const player = node.move.player;
+    const opponent = player === PlayerColor.Black ? PlayerColor.White : PlayerColor.Black;
+    return item.analysis.variations.flatMap((v, i) => {
+      // Skip off-board suggestions and moves that already have a sibling (played or suggested)
+      if (!toSGFCoordinate(v.move, size)) return [];
+      const move = moveProp({ player, type: 'play', coordinate: v.move }, size);
+      if (siblings.has(move)) return [];
+      siblings.add(move);
+      const continuation = (v.sequence || [])
+        .map((coordinate, j) => `;${moveProp({ player: j % 2 === 0 ? opponent : player, type: 'play', coordinate }, size)}`)
+        .join('');
+      return [`;${move}${prop('C', `推荐 ${i + 1} (${v.score}分): ${v.explanation}`)}${continuation}`];
+    });
+  };
+
+  const renderNode = (node: GameTreeNode): string => {
+    // Resignation is not a move in SGF, it only shows in RE
+    if (!node.move || node.move.type === 'resign') return '';
+    const item = items.get(node.id);
+
+    let text = `;${moveProp(node.move, size)}`;
+    const comments: string[] = [];
+    if (hasAnalysis(item)) {
+      text += EVALUATION_MARKS[getGrade(item.analysis.evaluation).key];
+      comments.push(formatAnalysisComment(item.analysis));
+    }
+    if (item?.comment) comments.push(item.comment);
+    if (comments.length > 0) text += prop('C', comments.join('\n\n'));
+    return text;
+  };
+
+  // A node, then its continuation: the first child inline or several bracketed variations
+  const renderContinuation = (node: GameTreeNode): string => {
+    const children = node.children.map(id => tree.nodes[id]);
+    const siblings = new Set(children.flatMap(child => child.move?.type === 'play' ? [moveProp(child.move, size)] : []));
+    const branches = [
+      ...children.map(child => renderNode(child) + renderContinuation(child)),
+      ...children.flatMap(child => renderRecommendations(child, siblings)),
+    ].filter(branch => branch.length > 0);
+
+    if (branches.length <= 1) return branches[0] || '';
+    return branches.map(branch => `(${branch})`).join('');
+  };
+
+  return `(${root}${renderContinuation(tree.nodes[tree.rootId])})`;
+};
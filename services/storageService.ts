@@ -0,0 +1,149 @@
+
+import { SavedGame, NewGameOptions, AIConfig, AIProvider } from '../types';
+import { normalizeEvaluation } from './evaluationGrades';
+
+const DB_NAME = 'zenGo';
+const DB_VERSION = 3; // 2: unified evaluation labels, 3: failed analyses flagged
+const GAMES_STORE = 'games';
+const CURRENT_GAME_KEY = 'zenGo_currentGameId';
+
+// Titles that stood for a failed request before AnalysisHistoryItem.isFailed
+const FAILED_TITLES = ['分析失败', '分析中断'];
+
+// Version 2: analyses saved with the old labels (恶手, 败着) get the current ones.
+// Version 3: failures saved as placeholder analyses become isFailed items.
+// Every upgrade also strips secrets saved by older versions (see stripApiKeys).
+const migrateSavedGame = (game: SavedGame, oldVersion: number): SavedGame => ({
+  ...game,
+  options: stripApiKeys(game.options),
+  analysisHistory: game.analysisHistory.map(item => {
+    if (oldVersion < 3 && FAILED_TITLES.includes(item.analysis.title)) {
+      return { ...item, isFailed: true, failureReason: item.analysis.detailedAnalysis };
+    }
+    const evaluation = oldVersion < 2 ? normalizeEvaluation(item.analysis.evaluation) : null;
+    return evaluation && evaluation !== item.analysis.evaluation
+      ? { ...item, analysis: { ...item.analysis, evaluation } }
+      : item;
+  })
+});
+
+const migrateGames = (store: IDBObjectStore, oldVersion: number) => {
+  const cursorRequest = store.openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    cursor.update(migrateSavedGame(cursor.value, oldVersion));
+    cursor.continue();
+  };
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(GAMES_STORE)) {
+          db.createObjectStore(GAMES_STORE, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+        } else {
+          migrateGames(request.transaction!.objectStore(GAMES_STORE), event.oldVersion);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null; // Allow a later retry
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Runs one request in its own transaction
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(GAMES_STORE, mode).objectStore(GAMES_STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const createGameId = (): string => `g${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+export const saveGame = async (game: SavedGame): Promise<void> => {
+  await withStore('readwrite', store => store.put(game));
+};
+
+export const loadGame = async (id: string): Promise<SavedGame | null> => {
+  const game = await withStore<SavedGame | undefined>('readonly', store => store.get(id));
+  return game || null;
+};
+
+// Newest first
+export const listGames = async (): Promise<SavedGame[]> => {
+  const games = await withStore<SavedGame[]>('readonly', store => store.getAll());
+  return games.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const deleteGame = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+};
+
+// The game to resume after a reload
+export const getCurrentGameId = (): string | null => localStorage.getItem(CURRENT_GAME_KEY);
+
+export const setCurrentGameId = (id: string) => localStorage.setItem(CURRENT_GAME_KEY, id);
+
+// --- Settings storage (localStorage) ---
+
+const API_KEYS_KEY = 'zenGo_apiKeys';
+const BASE_URLS_KEY = 'zenGo_baseURLs';
+export const CUSTOM_PROVIDER_KEY = 'zenGo_customProvider';
+
+// A corrupt entry reads as empty settings instead of breaking the settings and new-game dialogs
+const readJSON = (key: string): Record<string, any> => {
+  try {
+    const value = JSON.parse(localStorage.getItem(key) || '{}');
+    return value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+  } catch (e) {
+    console.warn(`Ignoring unreadable setting ${key}`, e);
+    return {};
+  }
+};
+
+// API key per provider
+export const loadApiKeys = (): Record<string, string> => readJSON(API_KEYS_KEY);
+
+// Endpoint override per provider (the GTP bridge address)
+export const loadBaseURLs = (): Record<string, string> => readJSON(BASE_URLS_KEY);
+
+// Endpoint settings saved next to the keys: GTP bridge address, custom server (URL, model, headers, JSON mode)
+export const loadProviderSettings = (provider: AIProvider): Partial<AIConfig> => {
+  if (provider === 'custom') return readJSON(CUSTOM_PROVIDER_KEY);
+  const urls = loadBaseURLs();
+  return urls[provider] ? { baseURL: urls[provider] } : {};
+};
+
+// API keys and the custom provider's headers (usually an Authorization or api-key value)
+// stay in the settings storage only, never inside saved games
+export const stripApiKeys = (options: NewGameOptions): NewGameOptions => {
+  const configs = options.aiVsAiConfigs;
+  if (!configs) return options;
+  const withoutSecrets = ({ headers, ...config }: AIConfig): AIConfig => ({ ...config, apiKey: '' });
+  return { ...options, aiVsAiConfigs: { black: withoutSecrets(configs.black), white: withoutSecrets(configs.white) } };
+};
+
+export const restoreApiKeys = (options: NewGameOptions): NewGameOptions => {
+  const configs = options.aiVsAiConfigs;
+  if (!configs) return options;
+  const keys = loadApiKeys();
+  const withSecrets = (config: AIConfig): AIConfig => ({
+    ...config,
+    apiKey: keys[config.provider] || '',
+    ...(config.provider === 'custom' && { headers: loadProviderSettings('custom').headers })
+  });
+  return { ...options, aiVsAiConfigs: { black: withSecrets(configs.black), white: withSecrets(configs.white) } };
+};
@@ -0,0 +1,77 @@
+
+import { GameState, Variation, GhostStone } from '../types';
+import { createSetupState, playMove, passMove } from './goGame';
+import { toHumanCoordinate } from './coordinates';
+
+// Recommended variations are alternatives to a played move: they start from the position
+// before it. Every one is checked with playMove() before it reaches the panel or the board.
+
+const MAX_SEQUENCE = 5; // Follow-up moves kept per variation, as asked of the models
+
+// Position after the first `moveCount` moves of `state`'s game, rebuilt from its setup
+export const replayPosition = (state: GameState, moveCount: number): GameState => {
+  const firstPlayer = state.moveHistory[0]?.player ?? state.currentPlayer;
+  let position = createSetupState(
+    state.boardSize,
+    { koRule: state.koRule, handicap: state.handicap, komi: state.komi },
+    state.setupStones.black,
+    state.setupStones.white,
+    firstPlayer
+  );
+  for (const move of state.moveHistory.slice(0, moveCount)) {
+    const result = move.type === 'play' && move.coordinate
+      ? playMove(position, move.coordinate.x, move.coordinate.y)
+      : move.type === 'pass' ? passMove(position) : { success: false };
+    if (!result.success || !result.newState) break;
+    position = result.newState;
+  }
+  return position;
+};
+
+// Plays a variation from `before`: the positions after each of its legal moves.
+// Stops at the first illegal move of the continuation.
+const playVariation = (before: GameState, variation: Variation): GameState[] => {
+  const positions: GameState[] = [];
+  let position = before;
+  for (const c of [variation.move, ...(variation.sequence || [])]) {
+    const result = playMove(position, c.x, c.y);
+    if (!result.success || !result.newState) break;
+    position = result.newState;
+    positions.push(position);
+  }
+  return positions;
+};
+
+// Drops variations whose first move is illegal and cuts continuations at their first illegal move
+export const checkVariations = (before: GameState, variations: Variation[]): Variation[] =>
+  variations.flatMap(variation => {
+    const positions = playVariation(before, variation);
+    if (positions.length === 0) {
+      console.warn("Dropped illegal variation:", variation.move, variation.explanation);
+      return [];
+    }
+    const sequence = (variation.sequence || []).slice(0, Math.min(positions.length - 1, MAX_SEQUENCE));
+    return [{ ...variation, sequence }];
+  });
+
+const toGhostStones = (variation: Variation, positions: GameState[]): GhostStone[] => {
+  const moves = [variation.move, ...(variation.sequence || [])];
+  return positions.map((position, i) => ({ coordinate: moves[i], color: position.moveHistory[position.moveHistory.length - 1].player, number: i + 1 }));
+};
+
+// Numbered stones of a variation's legal moves, the first `length` moves (default all)
+export const getVariationStones = (before: GameState, variation: Variation, length?: number): GhostStone[] =>
+  toGhostStones(variation, playVariation(before, variation).slice(0, length));
+
+// The board preview after the first `length` moves (default all): the position with the
+// captures taken off, and the variation's stones still standing with their numbers
+export const getVariationPreview = (before: GameState, variation: Variation, length?: number): { state: GameState; stones: GhostStone[] } => {
+  const positions = playVariation(before, variation).slice(0, length);
+  const state = positions[positions.length - 1] ?? before;
+  const stones = toGhostStones(variation, positions).filter(s => state.board[s.coordinate.y][s.coordinate.x] === s.color);
+  return { state, stones };
+};
+
+// "D4 → E5 → C3"
+export const formatVariation = (variation: Variation, size: number): string =>
+  [variation.move, ...(variation.sequence || [])].map(c => toHumanCoordinate(c, size)).join(' → ');
@@ -10,14 +10,27 @@ export interface Coordinate {
   y: number;
 }
 
+// A recommended alternative to the analyzed move, played from the position before it
 export interface Variation {
   move: Coordinate;
+  sequence?: Coordinate[]; // Continuation after `move`, colors alternating (checked by services/variations.ts)
   explanation: string;
   score: number;
 }
 
+// Numbered, translucent stone of a variation previewed on the board
+export interface GhostStone {
+  coordinate: Coordinate;
+  color: PlayerColor;
+  number: number; // 1 = the variation's first move
+}
+
+// Move quality grades, best first (see services/evaluationGrades.ts for bands and colors)
+export type EvaluationKey = 'brilliant' | 'good' | 'normal' | 'slow' | 'questionable' | 'regrettable';
+export type EvaluationLabel = '神之一手' | '好棋' | '普通' | '缓手' | '欠妥' | '遗憾';
+
 export interface MoveAnalysis {
-  evaluation: '神之一手' | '好棋' | '普通' | '缓手' | '恶手' | '败着';
+  evaluation: EvaluationLabel;
   score: number; // 0-100
   title: string; // A short, poetic summary (e.g., "Thick Wall", "Taking the Corner")
   detailedAnalysis: string; // The "Professional" explanation
@@ -25,32 +38,156 @@ export interface MoveAnalysis {
   josekiOrProverbs?: string[]; // E.g., "Star Point Knight's Move", "Ponnuki is 30 points"
   variations: Variation[]; // Better moves
   territoryChange: number;
+  engine?: EngineEvaluation; // Set when a Go engine (GTP provider) did the analysis
+}
+
+// Engine statistics for the position after the move, from Black's point of view
+export interface EngineEvaluation {
+  winRate: number; // 0-1
+  scoreLead: number; // Points, negative when White leads
+  visits: number;
+  ownership?: number[][]; // [y][x], +1 Black ... -1 White
 }
 
 export interface AnalysisHistoryItem {
+  nodeId: string; // Game tree node of the move
   moveNumber: number;
   player: PlayerColor;
   coordinate: Coordinate;
   analysis: MoveAnalysis;
   isLoading?: boolean;
+  partialAnalysis?: Partial<MoveAnalysis>; // Fields streamed so far while loading
+  isQueued?: boolean; // Requested while offline, sent once back online
+  isUnanalyzed?: boolean; // Imported move, AI analysis not requested yet
+  isInvalid?: boolean; // The AI's reply failed validation, also after the repair request
+  validationErrors?: string[];
+  isFailed?: boolean; // The request failed (network, server, rate limit); no analysis to show
+  failureReason?: string; // Shown with the retry button
+  comment?: string; // SGF C[] comment from an imported record
+}
+
+// Progress of a full-game review (every move of the line analyzed in turn)
+export interface ReviewProgress {
+  total: number;
+  done: number;
+  isPaused: boolean;
 }
 
+// One point of the game graph: the position after `moveNumber` moves of the current line
+export interface GraphPoint {
+  nodeId: string;
+  moveNumber: number;
+  player: PlayerColor | null; // Who played the move, null for the starting position
+  scoreLead: number; // Points, from Black's view (+ = Black leads)
+  isEngineLead: boolean; // From a Go engine's analysis, else estimateScore()
+  quality: number | null; // MoveAnalysis.score of an analyzed move
+  territoryChange: number | null;
+}
+
+export type MoveType = 'play' | 'pass' | 'resign';
+
+export interface Move {
+  player: PlayerColor;
+  type: MoveType;
+  coordinate: Coordinate | null; // null for pass / resign
+}
+
+export interface GameResult {
+  winner: PlayerColor | null; // null = jigo (draw)
+  reason: 'resign' | 'score';
+  margin?: number; // Points, only for 'score'
+}
+
+// 'chinese': area (stones + territory). 'japanese': territory + prisoners.
+export type ScoringRule = 'chinese' | 'japanese';
+
+export interface ScoreResult {
+  rule: ScoringRule;
+  blackScore: number;
+  whiteScore: number; // Includes komi
+  ownership: PlayerColor[][]; // [y][x], Empty = dame / neutral
+  result: GameResult;
+}
+
+// 'simple': only immediate ko recapture is forbidden.
+// 'positional': no move may recreate any earlier board position.
+// 'situational': no move may recreate an earlier position with the same player to move.
+export type KoRule = 'simple' | 'positional' | 'situational';
+
 export interface GameState {
   board: PlayerColor[][]; // [y][x]
   boardSize: number;
   currentPlayer: PlayerColor;
-  moveHistory: Coordinate[];
+  moveHistory: Move[];
   capturedBlack: number;
   capturedWhite: number;
   lastMove: Coordinate | null;
   isGameOver: boolean;
+  result: GameResult | null; // Set on resignation (and once the game is counted)
+  komi: number; // Points added to White's score (negative = reverse komi)
+  handicap: number; // Black stones placed before White's first move (0 = even game)
+  setupStones: { black: Coordinate[]; white: Coordinate[] }; // Stones on the board before move 1 (handicap or SGF AB/AW)
+  koRule: KoRule;
+  koPoint: Coordinate | null; // Point the current player may not retake this turn
+  positionHistory: string[]; // Zobrist hash + player to move of every position so far (for superko)
+}
+
+// Move tree: every position reached in this game, branches included
+export interface GameTreeNode {
+  id: string;
+  parentId: string | null; // null for the root (starting position)
+  children: string[]; // children[0] is the main line
+  move: Move | null; // Move that led here, null for the root
+  state: GameState; // Position after the move
+}
+
+export interface GameTree {
+  rootId: string;
+  nodes: Record<string, GameTreeNode>;
+}
+
+// 'vsAI': human against the AI. 'aiVsAi': two AIs play each other while the user watches.
+// 'hotseat': two humans share the board; the AI only analyzes.
+export type GameMode = 'vsAI' | 'aiVsAi' | 'hotseat';
+
+// Chosen in the new-game dialog
+export interface NewGameOptions {
+  boardSize: number;
+  koRule: KoRule;
+  handicap: number; // 0 or 2-9
+  komi: number;
+  mode: GameMode;
+  humanColor: PlayerColor; // 'vsAI' only
+  aiVsAiConfigs?: { black: AIConfig; white: AIConfig }; // 'aiVsAi' only
+  playerNames?: { black?: string; white?: string }; // From an imported record (PB/PW)
+}
+
+// A game as stored in the browser (IndexedDB), for resuming and the game library
+export interface SavedGame {
+  id: string;
+  createdAt: number; // ms since epoch
+  updatedAt: number;
+  options: NewGameOptions; // API keys stripped
+  tree: GameTree;
+  currentNodeId: string;
+  analysisHistory: AnalysisHistoryItem[];
+  totalTokens: number;
+  // Summary for the library list
+  moveCount: number;
+  result: GameResult | null;
+  provider: AIProvider; // Provider used for analysis
 }
 
 // AI Configuration Types
-export type AIProvider = 'gemini' | 'deepseek' | 'qwen' | 'aihubmix';
+// local: built-in offline engine, gtp: Go engine behind scripts/gtp-bridge.mjs,
+// custom: any OpenAI-compatible server (Ollama, vLLM, LM Studio, ...)
+export type AIProvider = 'gemini' | 'deepseek' | 'qwen' | 'aihubmix' | 'openai' | 'anthropic' | 'local' | 'gtp' | 'custom';
 
 export interface AIConfig {
   provider: AIProvider;
   apiKey: string;
   modelName?: string;
+  baseURL?: string; // Endpoint override, e.g. the GTP bridge address
+  headers?: Record<string, string>; // Extra request headers (custom provider)
+  jsonMode?: boolean; // Overrides the provider's response_format support (custom provider)
 }
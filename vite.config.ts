@@ -1,7 +1,23 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Emits service-worker.js with the list of built files to precache.
+// The cache version changes whenever a file name (content hash) changes.
+const serviceWorker = (): Plugin => ({
+  name: 'zengo-service-worker',
+  apply: 'build',
+  generateBundle(_, bundle) {
+    const urls = [...new Set(['/', '/index.html', ...Object.keys(bundle).map(file => `/${file}`)])];
+    const version = urls.join('|').split('').reduce((hash, c) => (hash * 31 + c.charCodeAt(0)) | 0, 0);
+    const source = fs.readFileSync(path.resolve(__dirname, 'service-worker.js'), 'utf-8')
+      .replace('self.__PRECACHE_MANIFEST', JSON.stringify(urls))
+      .replace('__CACHE_VERSION__', (version >>> 0).toString(36));
+    this.emitFile({ type: 'asset', fileName: 'service-worker.js', source });
+  }
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -10,7 +26,7 @@ export default defineConfig(({ mode }) => {
         host: '0.0.0.0',
         open: false,
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)